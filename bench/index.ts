@@ -0,0 +1,114 @@
+import { PathDriver } from "../src/driver";
+import { PosixDriver } from "../src/driver/posix";
+import { Win32Driver } from "../src/driver/win32";
+import * as legacyPosix from "./legacy/posix";
+import * as legacyWin32 from "./legacy/win32";
+
+// the benchmarks run on node, only what is used of its globals is declared
+declare const process: {
+    argv: string[];
+    exitCode: number;
+    hrtime(time?: [number, number]): [number, number];
+};
+declare const console: {
+    log(...values: unknown[]): void;
+};
+
+type Method = "dirname" | "basename" | "extname" | "parse" | "normalize" | "join" | "resolve" |
+    "relative" | "isAbsolute";
+
+interface Suite {
+    name: string;
+    current: PathDriver;
+    legacy: PathDriver;
+    paths: string[];
+}
+
+const suites: Suite[] = [
+    {
+        name: "posix",
+        current: new PosixDriver({ cwd: "/home/node", env: {} }),
+        legacy: new legacyPosix.PosixDriver({ cwd: "/home/node", env: {} }),
+        paths: [
+            "", ".", "..", "/", "//", "foo", "foo/", "/foo", "/foo/bar/baz.js", "/foo/bar/baz.tar.gz",
+            "./foo/../bar/./baz/", "../../a/b/c.d", "/a//b///c////", ".bashrc", "/home/node/.config/app.json",
+            "node_modules/@scope/pkg/dist/index.d.ts", "a/b/c/d/e/f/g/h/i/j/k/l/m/n/o/p.txt", "/x/y/../../z/..."
+        ]
+    },
+    {
+        name: "win32",
+        current: new Win32Driver({ cwd: "C:\\Users\\node", env: {} }),
+        legacy: new legacyWin32.Win32Driver({ cwd: "C:\\Users\\node", env: {} }),
+        paths: [
+            "", ".", "..", "\\", "C:", "C:\\", "c:/", "foo", "foo\\", "C:\\foo\\bar\\baz.js", "C:foo\\bar",
+            "\\\\server\\share\\dir\\file.txt", "//server/share/", "\\\\?\\C:\\Windows\\System32\\drivers",
+            "\\\\?\\UNC\\server\\share\\a.b", "\\\\.\\pipe\\name", ".\\foo\\..\\bar\\.\\baz\\",
+            "C:\\a\\\\b\\\\\\c\\\\\\\\", "node_modules\\@scope\\pkg\\dist\\index.d.ts", "D:\\x\\y\\..\\..\\z\\..."
+        ]
+    }
+];
+
+// every method is called with every path, the binary ones with the pairs
+// of neighbouring paths
+function calls(method: Method, paths: string[]): unknown[][] {
+    const binary = method === "join" || method === "resolve" || method === "relative";
+    return paths.map((path, i) => binary ? [path, paths[(i + 1) % paths.length]] : [path]);
+}
+
+function call(driver: PathDriver, method: Method, args: unknown[]): unknown {
+    return (driver[method] as (...args: unknown[]) => unknown)(...args);
+}
+
+// milliseconds it takes to run all the calls the given number of times
+function measure(driver: PathDriver, method: Method, args: unknown[][], iterations: number): number {
+    const start = process.hrtime();
+    for (let i = 0; i < iterations; i++) {
+        for (let j = 0; j < args.length; j++) {
+            call(driver, method, args[j]);
+        }
+    }
+    const [seconds, nanoseconds] = process.hrtime(start);
+    return seconds * 1e3 + nanoseconds / 1e6;
+}
+
+function pad(value: string, width: number): string {
+    while (value.length < width) {
+        value = " " + value;
+    }
+    return value;
+}
+
+const methods: Method[] = ["dirname", "basename", "extname", "parse", "normalize", "join", "resolve",
+    "relative", "isAbsolute"];
+const iterations = parseInt(process.argv[2], 10) || 20000;
+// the char code loops only beat the regular expressions of the legacy
+// drivers once they are optimized, short runs would time the JIT instead
+const warmup = Math.max(iterations / 10, 2000);
+
+for (const suite of suites) {
+    console.log(suite.name + " (" + iterations + " iterations of " + suite.paths.length + " paths)");
+    console.log(pad("method", 12) + pad("legacy ms", 12) + pad("current ms", 12) + pad("speedup", 10));
+    for (const method of methods) {
+        const args = calls(method, suite.paths);
+
+        // the timings are only worth something when both give the same results
+        for (const arg of args) {
+            const expected = JSON.stringify(call(suite.legacy, method, arg));
+            const actual = JSON.stringify(call(suite.current, method, arg));
+            if (expected !== actual) {
+                console.log(suite.name + "." + method + "(" + JSON.stringify(arg).slice(1, -1) + ") gives " +
+                    actual + " instead of " + expected);
+                process.exitCode = 1;
+            }
+        }
+
+        // warm up both before measuring
+        measure(suite.legacy, method, args, warmup);
+        measure(suite.current, method, args, warmup);
+        const legacy = measure(suite.legacy, method, args, iterations);
+        const current = measure(suite.current, method, args, iterations);
+        console.log(pad(method, 12) + pad(legacy.toFixed(1), 12) + pad(current.toFixed(1), 12) +
+            pad((legacy / current).toFixed(2) + "x", 10));
+    }
+    console.log("");
+}
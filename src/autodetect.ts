@@ -0,0 +1,96 @@
+import { DriverOptions, PathDriver } from "./driver";
+import { PosixDriver } from "./driver/posix";
+import { Win32Driver } from "./driver/win32";
+
+type Runtime = {
+    windows: boolean;
+    options: DriverOptions;
+};
+
+// Copies defined string values only, process.env may carry undefined
+// entries and Deno hands out a plain object.
+function copyEnv(source: Record<string, string | undefined>): Record<string, string> {
+    const env: Record<string, string> = {};
+    for (const key of Object.keys(source || {})) {
+        const value = source[key];
+        if (typeof(value) === "string") {
+            env[key] = value;
+        }
+    }
+    return env;
+}
+
+function detectNode(global: any): Runtime | undefined {
+    const process = global.process;
+    if (!process || typeof(process.cwd) !== "function" || !process.versions || !process.versions.node) {
+        return undefined;
+    }
+    return {
+        windows: process.platform === "win32",
+        options: {
+            cwd: process.cwd(),
+            env: copyEnv(process.env)
+        }
+    };
+}
+
+function detectDeno(global: any): Runtime | undefined {
+    const deno = global.Deno;
+    if (!deno || !deno.build) {
+        return undefined;
+    }
+    const options: DriverOptions = {};
+    // Both calls need permissions, without them the driver still works
+    // with an empty cwd and env.
+    try {
+        options.cwd = deno.cwd();
+    } catch (e) {
+        options.cwd = "";
+    }
+    try {
+        options.env = copyEnv(deno.env.toObject());
+    } catch (e) {
+        options.env = {};
+    }
+    return {
+        windows: deno.build.os === "windows",
+        options: options
+    };
+}
+
+function detectBrowser(): Runtime {
+    return {
+        windows: false,
+        options: {
+            cwd: "/"
+        }
+    };
+}
+
+function detect(): Runtime {
+    const global: any = typeof(globalThis) !== "undefined" ? globalThis : {};
+    return detectNode(global) || detectDeno(global) || detectBrowser();
+}
+
+// Creates a driver matching the current runtime. Node and Deno get a driver
+// for their host platform with a snapshot of the process cwd and env,
+// anything else (browsers, workers) falls back to posix with "/" as cwd.
+export function autodetect(): PathDriver {
+    const runtime = detect();
+    return runtime.windows
+        ? new Win32Driver(runtime.options)
+        : new PosixDriver(runtime.options);
+}
+
+// Options for a driver of the given platform seeded from the current
+// runtime, like Node's path.posix and path.win32 both use process.cwd().
+// On windows posix gets the cwd without the drive and with forward slashes.
+export function runtimeOptions(name: "posix" | "win32"): DriverOptions {
+    const runtime = detect();
+    const options: DriverOptions = { cwd: runtime.options.cwd || "", env: runtime.options.env || {} };
+    if (name === "posix" && runtime.windows && options.cwd) {
+        const cwd = options.cwd.replace(/\\/g, "/");
+        options.cwd = cwd.slice(cwd.indexOf("/")) || "/";
+    }
+    return options;
+}
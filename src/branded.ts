@@ -0,0 +1,40 @@
+import { PathDriver } from "./driver";
+
+// Branded path types, at runtime they are plain strings but the compiler
+// tells them apart so a relative path can't go where a resolved one is
+// expected. The brands are flags of a single property so they combine,
+// AbsolutePath & NormalizedPath carries both. TypeScript 3.9 has no
+// template literal types, the shape of the string is not checked.
+type Brand<K extends string> = string & { readonly __pathBrand: { readonly [F in K]: true } };
+
+// isAbsolute() holds for the path
+export type AbsolutePath = Brand<"absolute">;
+// isAbsolute() does not hold for the path, eg. "a/b" or "C:a" on win32
+export type RelativePath = Brand<"relative">;
+// the path has no "." and ".." segments left to resolve nor repeated
+// separators, what normalize() and resolve() return
+export type NormalizedPath = Brand<"normalized">;
+export type ResolvedPath = AbsolutePath & NormalizedPath;
+
+// paths of a single driver, Path.posix and Path.win32 hand them out
+export type PosixPath = Brand<"posix">;
+export type Win32Path = Brand<"win32">;
+export type UrlPath = Brand<"url">;
+
+export type PosixAbsolutePath = PosixPath & AbsolutePath;
+export type PosixRelativePath = PosixPath & RelativePath;
+export type Win32AbsolutePath = Win32Path & AbsolutePath;
+export type Win32RelativePath = Win32Path & RelativePath;
+
+// relative() gives absolute paths on win32 when the paths are on different
+// devices and on urls of different origins, only posix ones are relative
+export type RelativeResult<P extends string> = P extends PosixPath ? P & RelativePath : P;
+
+export function isRelative(path: string, driver: PathDriver): path is RelativePath {
+    return !driver.isAbsolute(path);
+}
+
+// normalize() gives the path back as it is
+export function isNormalized(path: string, driver: PathDriver): path is NormalizedPath {
+    return driver.normalize(path) === path;
+}
@@ -0,0 +1,48 @@
+import { ComparisonPolicy, PathDriver } from "./driver";
+import { normalizedSegments } from "./segments";
+
+// Approximates Unicode full case folding, upper casing first maps the
+// characters lowercase alone gets wrong, eg. "ß" -> "ss" and "ς" -> "σ".
+export function foldCase(value: string): string {
+    return value.toUpperCase().toLowerCase();
+}
+
+// Returns the form of the string two equal names share under the policy
+export function comparisonKey(value: string, policy: ComparisonPolicy): string {
+    if (policy.normalization) {
+        value = value.normalize(policy.normalization);
+    }
+    return policy.caseSensitive ? value : foldCase(value);
+}
+
+export function equalStrings(a: string, b: string, policy: ComparisonPolicy): boolean {
+    return a === b || comparisonKey(a, policy) === comparisonKey(b, policy);
+}
+
+export function compareStrings(a: string, b: string, policy: ComparisonPolicy): number {
+    const keyA = comparisonKey(a, policy);
+    const keyB = comparisonKey(b, policy);
+    return keyA < keyB ? -1 : keyA > keyB ? 1 : 0;
+}
+
+// Tells whether both paths name the same location lexically, neither of them
+// is resolved against the cwd
+export function equals(a: string, b: string, driver: PathDriver): boolean {
+    return compare(a, b, driver) === 0;
+}
+
+// Orders the paths segment by segment so parents sort before their children
+export function compare(a: string, b: string, driver: PathDriver): number {
+    const segmentsA = normalizedSegments(a, driver);
+    const segmentsB = normalizedSegments(b, driver);
+    const partsA = [segmentsA.root].concat(segmentsA.parts);
+    const partsB = [segmentsB.root].concat(segmentsB.parts);
+    const length = Math.min(partsA.length, partsB.length);
+    for (let i = 0; i < length; i++) {
+        const result = compareStrings(partsA[i], partsB[i], driver.comparison);
+        if (result) {
+            return result;
+        }
+    }
+    return partsA.length < partsB.length ? -1 : partsA.length > partsB.length ? 1 : 0;
+}
@@ -0,0 +1,140 @@
+import { PathDriver } from "./driver";
+import { statPath } from "./driver/win32";
+import { InvalidArgumentError, InvalidPathError } from "./errors";
+
+// How windows drives are mounted in the posix tree:
+//   wsl    - C:\foo -> /mnt/c/foo
+//   msys   - C:\foo -> /c/foo (also Git Bash)
+//   cygwin - C:\foo -> /cygdrive/c/foo
+export type MountStyle = "wsl" | "msys" | "cygwin";
+
+export interface ConvertOptions {
+    style?: MountStyle;
+}
+
+const mountPrefixes: Record<MountStyle, string> = {
+    wsl: "/mnt/",
+    msys: "/",
+    cygwin: "/cygdrive/"
+};
+
+// characters allowed in posix names but not in win32 ones
+const win32ForbiddenRe = /[<>:"|?*\x00-\x1f]/;
+
+function driverKind(driver: PathDriver): "posix" | "win32" {
+    if (driver.name !== "posix" && driver.name !== "win32") {
+        throw new InvalidArgumentError(
+            "Conversion of \"" + driver.name + "\" paths is not supported",
+            "driver", driver, driver.name, "ERR_INVALID_ARG_VALUE"
+        );
+    }
+    return driver.name;
+}
+
+function mountPrefix(options: ConvertOptions): string {
+    const style = options.style || "wsl";
+    if (!Object.prototype.hasOwnProperty.call(mountPrefixes, style)) {
+        throw new InvalidArgumentError("Unknown mount style \"" + style + "\"", "options.style", style, undefined, "ERR_INVALID_ARG_VALUE");
+    }
+    return mountPrefixes[style];
+}
+
+// strips the \\?\ prefix from verbatim drive and UNC paths, volume and
+// device namespace paths have no posix equivalent
+function stripNamespace(path: string): string {
+    const verbatim = /^[\\\/]{2}\?[\\\/](?:([uU][nN][cC])[\\\/]|(?=[a-zA-Z]:))/.exec(path);
+    if (verbatim) {
+        return (verbatim[1] ? "\\\\" : "") + path.slice(verbatim[0].length);
+    }
+    throw new InvalidPathError(
+        "Path \"" + path + "\" is not a drive or UNC path and has no posix equivalent",
+        "path", path, "win32", "ERR_UNSUPPORTED_PATH"
+    );
+}
+
+function win32ToPosix(path: string, prefix: string): string {
+    let result = statPath(path);
+    if (result.isNamespaced) {
+        path = stripNamespace(path);
+        result = statPath(path);
+    }
+    const tail = result.tail.split(/[\\\/]+/).join("/");
+
+    if (result.isUnc) {
+        // \\server\share -> //server/share
+        return "//" + result.device.replace(/^[\\\/]+/, "").split(/[\\\/]+/).join("/") +
+            (tail ? "/" + tail : "");
+    }
+    if (!result.device) {
+        if (result.isAbsolute) {
+            throw new InvalidPathError(
+                "Path \"" + path + "\" is relative to the current drive and has no posix equivalent",
+                "path", path, "win32", "ERR_UNSUPPORTED_PATH"
+            );
+        }
+        return tail;
+    }
+    if (!result.isAbsolute) {
+        throw new InvalidPathError(
+            "Path \"" + path + "\" is relative to the drive cwd and has no posix equivalent",
+            "path", path, "win32", "ERR_UNSUPPORTED_PATH"
+        );
+    }
+    return prefix + result.device[0].toLowerCase() + (tail ? "/" + tail : "");
+}
+
+function posixToWin32(path: string, prefix: string): string {
+    if (path.indexOf("\\") >= 0) {
+        throw new InvalidPathError(
+            "Path \"" + path + "\" contains a backslash which is a separator on win32",
+            "path", path, "posix", "ERR_UNSUPPORTED_PATH"
+        );
+    }
+    if (win32ForbiddenRe.test(path)) {
+        throw new InvalidPathError(
+            "Path \"" + path + "\" contains characters not allowed in win32 paths",
+            "path", path, "posix", "ERR_UNSUPPORTED_PATH"
+        );
+    }
+    if (path[0] !== "/") {
+        return path.split("/").join("\\");
+    }
+
+    const unc = /^\/\/([^\/]+)\/([^\/]+)(\/.*)?$/.exec(path);
+    if (unc) {
+        return "\\\\" + unc[1] + "\\" + unc[2] + "\\" + (unc[3] || "").slice(1).split("/").join("\\");
+    }
+
+    if (path.substr(0, prefix.length) === prefix) {
+        const rest = path.slice(prefix.length);
+        const slash = rest.indexOf("/");
+        const drive = slash < 0 ? rest : rest.slice(0, slash);
+        if (/^[a-zA-Z]$/.test(drive)) {
+            const tail = slash < 0 ? "" : rest.slice(slash + 1);
+            return drive.toUpperCase() + ":\\" + tail.split("/").join("\\");
+        }
+    }
+    throw new InvalidPathError(
+        "Path \"" + path + "\" is not under the \"" + prefix + "\" drive mount root",
+        "path", path, "posix", "ERR_UNSUPPORTED_PATH"
+    );
+}
+
+// Converts the path between drivers. Separators are swapped, drive letters
+// are mapped to their mount points according to the style and UNC shares
+// become "//server/share" paths. Throws InvalidPathError for paths the
+// target driver can't represent.
+export function convertPath(path: string, from: PathDriver, to: PathDriver, options: ConvertOptions = {}): string {
+    if (typeof(path) !== "string") {
+        throw new InvalidArgumentError("Parameter \"path\" must be a string, not " + typeof path, "path", path, from.name);
+    }
+    const source = driverKind(from);
+    const target = driverKind(to);
+    const prefix = mountPrefix(options);
+    if (source === target) {
+        return path;
+    }
+    return source === "win32"
+        ? win32ToPosix(path, prefix)
+        : posixToWin32(path, prefix);
+}
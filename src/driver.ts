@@ -1,19 +1,37 @@
 import { PathInfo } from "./pathinfo";
 
+export type NormalizationForm = "NFC" | "NFD" | "NFKC" | "NFKD";
+
+// How path segments are compared, names are optionally brought to the
+// Unicode normalization form first and then case folded when insensitive.
+export interface ComparisonPolicy {
+    caseSensitive: boolean;
+    normalization?: NormalizationForm;
+}
+
+export interface DriverOptions {
+    cwd?: string;
+    env?: Record<string, string>;
+    comparison?: ComparisonPolicy;
+}
+
 export interface PathDriver {
+    readonly name: string;
     readonly separator: string;
     readonly delimiter: string;
     cwd: string;
     env?: Record<string, string>;
+    comparison: ComparisonPolicy;
 
     join(...paths: string[]): string;
     normalize(path: string): string;
     isAbsolute(path: string): boolean;
-    resolve(from: string, to: string): string;
+    resolve(...paths: string[]): string;
     relative(from: string, to: string): string;
     dirname(path: string): string;
     extname(path: string): string;
     basename(path: string, ext: string): string;
     format(info: PathInfo): string;
     parse(path: string): PathInfo;
+    toNamespacedPath(path: string): string;
 }
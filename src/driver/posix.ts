@@ -20,45 +20,81 @@
 // OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE
 // USE OR OTHER DEALINGS IN THE SOFTWARE.
 
+import { equalStrings } from "../compare";
+import { ComparisonPolicy, DriverOptions, PathDriver } from "../driver";
+import { InvalidArgumentError } from "../errors";
 import { PathInfo } from "../pathinfo";
 
-export let cwd = "";
-export const env: Record<string, string> = {};
-export const separator = "/";
-export const delimiter = ":";
-
 
 function isString(value: any): value is string {
     return typeof(value) === "string";
 }
 
 function isObject(value: any): value is Record<string, string> {
-    return typeof(value) === "object";
+    return value !== null && typeof(value) === "object";
 }
 
+function validateString(value: any, argument: string, driver: string): void {
+    if (!isString(value)) {
+        throw new InvalidArgumentError(
+            "Parameter \"" + argument + "\" must be a string, not " + typeof value,
+            argument, value, driver
+        );
+    }
+}
 
-// resolves . and .. elements in a path array with directory names there
-// must be no slashes or device names (c:\) in the array
-// (so also no leading and trailing slashes - it does not distinguish
-// relative and absolute paths)
-function normalizeArray(parts: string[], allowAboveRoot: boolean): string[] {
-    let res = [];
-    for (let i = 0; i < parts.length; i++) {
-        let p = parts[i];
+// extensions given without the leading dot get one
+function formatExt(ext: string | undefined): string {
+    return ext ? (ext[0] === "." ? "" : ".") + ext : "";
+}
 
-        // ignore empty parts
-        if (!p || p === ".") {
-            continue;
+
+const CHAR_DOT = 46;
+const CHAR_FORWARD_SLASH = 47;
+
+// resolves . and .. segments in a single pass over the char codes, there
+// must be no root in the path (it does not distinguish relative and
+// absolute paths), empty segments are dropped
+function normalizeString(path: string, allowAboveRoot: boolean): string {
+    let res = "";
+    let lastSegmentLength = 0;
+    let lastSlash = -1;
+    let dots = 0;
+    let code = 0;
+    for (let i = 0; i <= path.length; i++) {
+        if (i < path.length) {
+            code = path.charCodeAt(i);
+        } else if (code === CHAR_FORWARD_SLASH) {
+            break;
+        } else {
+            code = CHAR_FORWARD_SLASH;
         }
 
-        if (p === "..") {
-            if (res.length && res[res.length - 1] !== "..") {
-                res.pop();
-            } else if (allowAboveRoot) {
-                res.push("..");
+        if (code === CHAR_FORWARD_SLASH) {
+            if (lastSlash === i - 1 || dots === 1) {
+                // empty or "." segment
+            } else if (dots === 2) {
+                if (res.length && (lastSegmentLength !== 2 ||
+                    res.charCodeAt(res.length - 1) !== CHAR_DOT ||
+                    res.charCodeAt(res.length - 2) !== CHAR_DOT)) {
+                    // drop the last segment
+                    const lastSlashIndex = res.lastIndexOf("/");
+                    res = lastSlashIndex === -1 ? "" : res.slice(0, lastSlashIndex);
+                    lastSegmentLength = res.length - 1 - res.lastIndexOf("/");
+                } else if (allowAboveRoot) {
+                    res += res.length ? "/.." : "..";
+                    lastSegmentLength = 2;
+                }
+            } else {
+                res += (res.length ? "/" : "") + path.slice(lastSlash + 1, i);
+                lastSegmentLength = i - lastSlash - 1;
             }
+            lastSlash = i;
+            dots = 0;
+        } else if (code === CHAR_DOT && dots !== -1) {
+            dots++;
         } else {
-            res.push(p);
+            dots = -1;
         }
     }
     return res;
@@ -91,197 +127,274 @@ function trimArray(arr: string[]): string[] {
     return arr.slice(start, end + 1);
 }
 
-// Split a filename into [root, dir, basename, ext], unix version
-// "root" is just a slash, or nothing.
-const splitPathRe = /^(\/?|)([\s\S]*?)((?:\.{1,2}|[^\/]+?|)(\.[^.\/]*|))(?:[\/]*)$/;
+// offset of the last dot in path[start:end] or -1
+function lastDot(path: string, start: number, end: number): number {
+    for (let i = end - 1; i >= start; i--) {
+        if (path.charCodeAt(i) === CHAR_DOT) {
+            return i;
+        }
+    }
+    return -1;
+}
 
+// Offset the extension of the name path[start:end] starts at, end when it
+// has none. Leading dots belong to the name except that ".." followed by
+// a single extension (eg. "...", "..js") gives a part of them to it.
+function extStart(path: string, start: number, end: number): number {
+    const length = end - start;
+    if (length === 1 && path.charCodeAt(start) === CHAR_DOT) {
+        return end;
+    }
+    if (length >= 2 && path.charCodeAt(start) === CHAR_DOT && path.charCodeAt(start + 1) === CHAR_DOT) {
+        if (length === 2) {
+            return end;
+        }
+        if (path.charCodeAt(start + 2) === CHAR_DOT && lastDot(path, start + 3, end) === -1) {
+            return start + 2;
+        }
+        if (lastDot(path, start + 2, end) === -1) {
+            return start + 1;
+        }
+    }
+    const dot = lastDot(path, start + 1, end);
+    return dot === -1 ? end : dot;
+}
 
-function splitPath(filename: string): string[] {
-    return splitPathRe.exec(filename).slice(1);
+// Offsets the parts of the path are found at: [root end, base start, base
+// end], the root is just a slash or nothing and the trailing slashes are
+// not part of the base
+function splitPath(path: string): [number, number, number] {
+    const rootEnd = path.charCodeAt(0) === CHAR_FORWARD_SLASH ? 1 : 0;
+    let end = path.length;
+    while (end > rootEnd && path.charCodeAt(end - 1) === CHAR_FORWARD_SLASH) {
+        end--;
+    }
+    let start = end;
+    while (start > rootEnd && path.charCodeAt(start - 1) !== CHAR_FORWARD_SLASH) {
+        start--;
+    }
+    return [rootEnd, start, end];
 }
 
-// path.resolve([from ...], to)
-// posix version
-export function resolve(...paths: string[]): string {
-    let resolvedPath = "";
-    let resolvedAbsolute = false;
+export class PosixDriver implements PathDriver {
+    public readonly name = "posix";
+    public readonly separator = "/";
+    public readonly delimiter = ":";
+    public cwd: string;
+    public env: Record<string, string>;
+    public comparison: ComparisonPolicy;
+
+    public constructor(options: DriverOptions = {}) {
+        this.cwd = options.cwd || "";
+        this.env = options.env || {};
+        this.comparison = options.comparison || { caseSensitive: true };
+    }
 
-    for (let i = paths.length - 1; i >= -1 && !resolvedAbsolute; i--) {
-        let path = (i >= 0) ? paths[i] : cwd;
+    // path.resolve([from ...], to)
+    // posix version
+    public resolve(...paths: string[]): string {
+        let resolvedPath = "";
+        let resolvedAbsolute = false;
 
-        // Skip empty and invalid entries
-        if (!isString(path)) {
-            throw new TypeError("Arguments to path.resolve must be strings");
-        } else if (!path) {
-            continue;
+        for (let i = paths.length - 1; i >= -1 && !resolvedAbsolute; i--) {
+            let path = (i >= 0) ? paths[i] : this.cwd;
+
+            // Skip empty and invalid entries
+            if (!isString(path)) {
+                throw new InvalidArgumentError("Arguments to path.resolve must be strings", "paths", path, this.name);
+            } else if (!path) {
+                continue;
+            }
+
+            resolvedPath = path + "/" + resolvedPath;
+            resolvedAbsolute = path[0] === "/";
         }
 
-        resolvedPath = path + "/" + resolvedPath;
-        resolvedAbsolute = path[0] === "/";
-    }
+        // At this point the path should be resolved to a full absolute path, but
+        // handle relative paths to be safe (might happen when process.cwd() fails)
 
-    // At this point the path should be resolved to a full absolute path, but
-    // handle relative paths to be safe (might happen when process.cwd() fails)
+        // Normalize the path
+        resolvedPath = normalizeString(resolvedPath, !resolvedAbsolute);
 
-    // Normalize the path
-    resolvedPath = normalizeArray(resolvedPath.split("/"),
-    !resolvedAbsolute).join("/");
+        return ((resolvedAbsolute ? "/" : "") + resolvedPath) || ".";
+    }
 
-    return ((resolvedAbsolute ? "/" : "") + resolvedPath) || ".";
-}
+    // path.normalize(path)
+    // posix version
+    public normalize(path: string): string {
+        validateString(path, "path", this.name);
+        const isAbs = path.charCodeAt(0) === CHAR_FORWARD_SLASH;
+        const trailingSlash = path.charCodeAt(path.length - 1) === CHAR_FORWARD_SLASH;
 
-// path.normalize(path)
-// posix version
-export function normalize(path: string): string {
-    const isAbs = isAbsolute(path);
-    const trailingSlash = path && path[path.length - 1] === "/";
+        // Normalize the path
+        path = normalizeString(path, !isAbs);
 
-    // Normalize the path
-    path = normalizeArray(path.split("/"), !isAbs).join("/");
+        if (!path && !isAbs) {
+            path = ".";
+        }
+        if (path && trailingSlash) {
+            path += "/";
+        }
 
-    if (!path && !isAbs) {
-        path = ".";
-    }
-    if (path && trailingSlash) {
-        path += "/";
+        return (isAbs ? "/" : "") + path;
     }
 
-    return (isAbs ? "/" : "") + path;
-}
-
-// posix version
-export function isAbsolute(path: string): boolean {
-    return path.charAt(0) === "/";
-}
+    // posix version
+    public isAbsolute(path: string): boolean {
+        validateString(path, "path", this.name);
+        return path.charCodeAt(0) === CHAR_FORWARD_SLASH;
+    }
 
-// posix version
-export function join(...paths: string[]): string {
-    let path = "";
-    for (let i = 0; i < paths.length; i++) {
-        const segment = paths[i];
-        if (!isString(segment)) {
-            throw new TypeError("Arguments to path.join must be strings");
-        }
-        if (segment) {
-            if (!path) {
-                path += segment;
-            } else {
-                path += "/" + segment;
+    // posix version
+    public join(...paths: string[]): string {
+        let path = "";
+        for (let i = 0; i < paths.length; i++) {
+            const segment = paths[i];
+            if (!isString(segment)) {
+                throw new InvalidArgumentError("Arguments to path.join must be strings", "paths", segment, this.name);
+            }
+            if (segment) {
+                if (!path) {
+                    path += segment;
+                } else {
+                    path += "/" + segment;
+                }
             }
         }
+        return this.normalize(path);
     }
-    return normalize(path);
-}
 
 
-// path.relative(from, to)
-// posix version
-export function relative(from: string, to: string): string {
-    from = resolve(from).substr(1);
-    to = resolve(to).substr(1);
+    // path.relative(from, to)
+    // posix version
+    public relative(from: string, to: string): string {
+        // without a cwd the resolved paths may stay relative
+        from = this.resolve(from);
+        to = this.resolve(to);
+        const fromAbsolute = this.isAbsolute(from);
+        if (fromAbsolute !== this.isAbsolute(to)) {
+            throw new InvalidArgumentError(
+                "Cannot relate an absolute and a relative path without a cwd",
+                fromAbsolute ? "to" : "from", fromAbsolute ? to : from, this.name, "ERR_INVALID_ARG_VALUE"
+            );
+        }
 
-    const fromParts = trimArray(from.split("/"));
-    const toParts = trimArray(to.split("/"));
+        const fromParts = trimArray(from.replace(/^\/|^\.$/, "").split("/"));
+        const toParts = trimArray(to.replace(/^\/|^\.$/, "").split("/"));
 
-    const length = Math.min(fromParts.length, toParts.length);
-    let samePartsLength = length;
-    for (let i = 0; i < length; i++) {
-        if (fromParts[i] !== toParts[i]) {
-            samePartsLength = i;
-            break;
+        const length = Math.min(fromParts.length, toParts.length);
+        let samePartsLength = length;
+        for (let i = 0; i < length; i++) {
+            if (!equalStrings(fromParts[i], toParts[i], this.comparison)) {
+                samePartsLength = i;
+                break;
+            }
         }
-    }
-
-    let outputParts = [];
-    for (let i = samePartsLength; i < fromParts.length; i++) {
-        outputParts.push("..");
-    }
 
-    outputParts = outputParts.concat(toParts.slice(samePartsLength));
+        let outputParts = [];
+        for (let i = samePartsLength; i < fromParts.length; i++) {
+            // the name of the directory above the missing cwd is unknown
+            if (fromParts[i] === "..") {
+                throw new InvalidArgumentError(
+                    "Cannot relate a path above the missing cwd", "from", from, this.name, "ERR_INVALID_ARG_VALUE"
+                );
+            }
+            outputParts.push("..");
+        }
 
-    return outputParts.join("/");
-}
+        outputParts = outputParts.concat(toParts.slice(samePartsLength));
 
+        return outputParts.join("/");
+    }
 
-export function _makeLong(path: string): string {
-    return path;
-}
 
+    public toNamespacedPath(path: string): string {
+        return path;
+    }
 
-export function dirname(path: string): string {
-    const result = splitPath(path);
-    const root = result[0];
-    let dir = result[1];
 
-    if (!root && !dir) {
+    public dirname(path: string): string {
+        validateString(path, "path", this.name);
+        const [rootEnd, start] = splitPath(path);
+        if (start > rootEnd) {
+            // It has a dirname, strip trailing slash
+            return path.slice(0, start - 1);
+        }
         // No dirname whatsoever
-        return ".";
+        return rootEnd ? "/" : ".";
     }
 
-    if (dir) {
-        // It has a dirname, strip trailing slash
-        dir = dir.substr(0, dir.length - 1);
-    }
 
-    return root + dir;
-}
+    public basename(path: string, ext: string): string {
+        validateString(path, "path", this.name);
+        if (ext !== undefined) {
+            validateString(ext, "ext", this.name);
+        }
+        const [, start, end] = splitPath(path);
+        let f = path.slice(start, end);
+        // the extension is only removed when some of the name remains,
+        // except for a path made of the extension alone
+        if (ext === path) {
+            return "";
+        }
+        if (ext && ext.length < f.length && equalStrings(f.substr(-1 * ext.length), ext, this.comparison)) {
+            f = f.substr(0, f.length - ext.length);
+        }
+        return f;
+    }
 
 
-export function basename(path: string, ext: string): string {
-    let f = splitPath(path)[2];
-    if (ext && f.substr(-1 * ext.length) === ext) {
-        f = f.substr(0, f.length - ext.length);
+    public extname(path: string): string {
+        validateString(path, "path", this.name);
+        const [, start, end] = splitPath(path);
+        return path.slice(extStart(path, start, end), end);
     }
-    return f;
-}
 
 
-export function extname(path: string): string {
-    return splitPath(path)[3];
-}
-
+    public format(pathObject: PathInfo): string {
+        if (!isObject(pathObject)) {
+            throw new InvalidArgumentError(
+                "Parameter \"pathObject\" must be an object, not " + typeof pathObject,
+                "pathObject", pathObject, this.name
+            );
+        }
 
-export function format(pathObject: PathInfo): string {
-    if (!isObject(pathObject)) {
-        throw new TypeError(
-            "Parameter \"pathObject\" must be an object, not " + typeof pathObject
-        );
-    }
+        const root = pathObject.root || "";
 
-    const root = pathObject.root || "";
+        if (!isString(root)) {
+            throw new InvalidArgumentError(
+                "\"pathObject.root\" must be a string or undefined, not " +
+                typeof pathObject.root,
+                "pathObject.root", pathObject.root, this.name
+            );
+        }
 
-    if (!isString(root)) {
-        throw new TypeError(
-            "\"pathObject.root\" must be a string or undefined, not " +
-            typeof pathObject.root
-        );
+        const dir = pathObject.dir || root;
+        const base = pathObject.base || (pathObject.name || "") + formatExt(pathObject.ext);
+        if (!dir) {
+            return base;
+        }
+        return dir === root ? dir + base : dir + this.separator + base;
     }
 
-    const dir = pathObject.dir ? pathObject.dir + separator : "";
-    const base = pathObject.base || "";
-    return dir + base;
-}
-
 
-export function parse(pathString: string): PathInfo {
-    if (!isString(pathString)) {
-        throw new TypeError(
-            "Parameter \"pathString\" must be a string, not " + typeof pathString
-        );
-    }
-    const allParts = splitPath(pathString);
-    if (!allParts || allParts.length !== 4) {
-        throw new TypeError("Invalid path \"" + pathString + "\"");
+    public parse(pathString: string): PathInfo {
+        if (!isString(pathString)) {
+            throw new InvalidArgumentError(
+                "Parameter \"pathString\" must be a string, not " + typeof pathString,
+                "pathString", pathString, this.name
+            );
+        }
+        const [rootEnd, start, end] = splitPath(pathString);
+        const ext = extStart(pathString, start, end);
+        return {
+            root: pathString.slice(0, rootEnd),
+            dir: pathString.slice(0, start > rootEnd ? start - 1 : rootEnd),
+            base: pathString.slice(start, end),
+            ext: pathString.slice(ext, end),
+            name: pathString.slice(start, ext)
+        };
     }
-    allParts[1] = allParts[1] || "";
-    allParts[2] = allParts[2] || "";
-    allParts[3] = allParts[3] || "";
-
-    return {
-        root: allParts[0],
-        dir: allParts[0] + allParts[1].slice(0, -1),
-        base: allParts[2],
-        ext: allParts[3],
-        name: allParts[2].slice(0, allParts[2].length - allParts[3].length)
-    };
 }
+
+export const posixDriver = new PosixDriver();
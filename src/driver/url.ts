@@ -0,0 +1,339 @@
+import { equalStrings } from "../compare";
+import { ComparisonPolicy, DriverOptions, PathDriver } from "../driver";
+import { InvalidArgumentError, InvalidPathError } from "../errors";
+import { PathInfo } from "../pathinfo";
+
+type UrlParts = {
+    // "scheme:" and/or "//authority", empty for path references
+    origin: string,
+    path: string,
+    query: string | undefined,
+    fragment: string | undefined,
+};
+
+// RFC 3986 appendix B
+const urlRe = /^(?:([a-zA-Z][a-zA-Z0-9+.\-]*):)?(?:\/\/([^\/?#]*))?([^?#]*)(?:\?([^#]*))?(?:#([\s\S]*))?$/;
+
+// Split the path part into [dir, basename, ext], the same as posix does
+const splitTailRe = /^([\s\S]*?)((?:\.{1,2}|[^\/]+?|)(\.[^.\/]*|))(?:[\/]*)$/;
+
+const dotRe = /^(?:\.|%2e)$/i;
+const dotDotRe = /^(?:\.|%2e){2}$/i;
+
+function isString(value: any): value is string {
+    return typeof(value) === "string";
+}
+
+function isObject(value: any): value is Record<string, string> {
+    return value !== null && typeof(value) === "object";
+}
+
+function validateString(value: any, argument: string, driver: string): void {
+    if (!isString(value)) {
+        throw new InvalidArgumentError(
+            "Parameter \"" + argument + "\" must be a string, not " + typeof value,
+            argument, value, driver
+        );
+    }
+}
+
+// [userinfo@]host[:port], the host may be an IP literal in brackets
+const authorityRe = /^([\s\S]*@)?(\[[^\]]*\]|[^:]*)([\s\S]*)$/;
+
+// only the scheme and the host are case-insensitive, the userinfo and the
+// port are kept as they are
+function normalizeAuthority(authority: string): string {
+    const result = authorityRe.exec(authority);
+    return (result[1] || "") + result[2].toLowerCase() + result[3];
+}
+
+function splitUrl(url: string): UrlParts {
+    const result = urlRe.exec(url);
+    const scheme = result[1];
+    const authority = result[2];
+    return {
+        origin: (scheme !== undefined ? scheme.toLowerCase() + ":" : "") +
+            (authority !== undefined ? "//" + normalizeAuthority(authority) : ""),
+        path: result[3],
+        query: result[4],
+        fragment: result[5]
+    };
+}
+
+function joinUrl(parts: UrlParts): string {
+    return parts.origin + parts.path +
+        (parts.query !== undefined ? "?" + parts.query : "") +
+        (parts.fragment !== undefined ? "#" + parts.fragment : "");
+}
+
+// RFC 3986 remove_dot_segments, relative paths keep leading ".." when
+// allowAboveRoot is set. Empty segments are meaningful in URLs and are
+// never squashed.
+function removeDotSegments(path: string, allowAboveRoot: boolean): string {
+    const absolute = path[0] === "/";
+    const segments = (absolute ? path.slice(1) : path).split("/");
+    const res: string[] = [];
+    for (let i = 0; i < segments.length; i++) {
+        const segment = segments[i];
+        const last = i === segments.length - 1;
+        if (dotRe.test(segment)) {
+            if (last) {
+                res.push("");
+            }
+        } else if (dotDotRe.test(segment)) {
+            if (res.length && res[res.length - 1] !== "..") {
+                res.pop();
+            } else if (!absolute && allowAboveRoot) {
+                res.push("..");
+            }
+            if (last) {
+                res.push("");
+            }
+        } else {
+            res.push(segment);
+        }
+    }
+    return (absolute ? "/" : "") + res.join("/");
+}
+
+// RFC 3986 section 5.2.3
+function merge(base: UrlParts, path: string): string {
+    if (base.origin.indexOf("//") >= 0 && !base.path) {
+        return "/" + path;
+    }
+    return base.path.slice(0, base.path.lastIndexOf("/") + 1) + path;
+}
+
+// RFC 3986 section 5.2.2
+function resolveReference(base: UrlParts, ref: UrlParts): UrlParts {
+    const hasScheme = /^[a-z][a-z0-9+.\-]*:/.test(ref.origin);
+    const hasAuthority = ref.origin.indexOf("//") >= 0;
+    if (hasScheme) {
+        return { ...ref, path: removeDotSegments(ref.path, false) };
+    }
+    const scheme = base.origin.replace(/^([a-z][a-z0-9+.\-]*:)?[\s\S]*$/, "$1");
+    if (hasAuthority) {
+        return { ...ref, origin: scheme + ref.origin, path: removeDotSegments(ref.path, false) };
+    }
+    if (!ref.path) {
+        return {
+            origin: base.origin,
+            path: base.path,
+            query: ref.query !== undefined ? ref.query : base.query,
+            fragment: ref.fragment
+        };
+    }
+    const path = ref.path[0] === "/" ? ref.path : merge(base, ref.path);
+    return {
+        origin: base.origin,
+        path: removeDotSegments(path, !base.origin && base.path[0] !== "/"),
+        query: ref.query,
+        fragment: ref.fragment
+    };
+}
+
+function isAbsoluteParts(parts: UrlParts): boolean {
+    return !!parts.origin || parts.path[0] === "/";
+}
+
+// Driver for URLs and URL path references, eg. routes or asset paths.
+// Dot segments are removed per RFC 3986, percent-encoding is kept as is,
+// the query and fragment are carried by resolve, join and normalize but are
+// not part of the parsed path info.
+export class UrlDriver implements PathDriver {
+    public readonly name = "url";
+    public readonly separator = "/";
+    public readonly delimiter = ",";
+    public cwd: string;
+    public env: Record<string, string>;
+    public comparison: ComparisonPolicy;
+
+    public constructor(options: DriverOptions = {}) {
+        this.cwd = options.cwd || "";
+        this.env = options.env || {};
+        this.comparison = options.comparison || { caseSensitive: true };
+    }
+
+    public resolve(...paths: string[]): string {
+        let resolved = splitUrl(this.cwd);
+        for (let i = 0; i < paths.length; i++) {
+            const path = paths[i];
+            if (!isString(path)) {
+                throw new InvalidArgumentError("Arguments to path.resolve must be strings", "paths", path, this.name);
+            } else if (!path) {
+                continue;
+            }
+            resolved = resolveReference(resolved, splitUrl(path));
+        }
+        if (!resolved.origin && !resolved.path) {
+            resolved.path = ".";
+        }
+        return joinUrl(resolved);
+    }
+
+    public normalize(path: string): string {
+        validateString(path, "path", this.name);
+        const parts = splitUrl(path);
+        parts.path = removeDotSegments(parts.path, !isAbsoluteParts(parts));
+        if (!parts.origin && !parts.path && parts.query === undefined && parts.fragment === undefined) {
+            parts.path = ".";
+        }
+        return joinUrl(parts);
+    }
+
+    public isAbsolute(path: string): boolean {
+        validateString(path, "path", this.name);
+        return isAbsoluteParts(splitUrl(path));
+    }
+
+    // the query and fragment of the last argument are kept, the ones of the
+    // preceding arguments are dropped. Only the first argument may carry an
+    // origin, the later ones can repeat it but not name another one.
+    public join(...paths: string[]): string {
+        let origin = "";
+        let joined = "";
+        let last: UrlParts | undefined;
+        for (let i = 0; i < paths.length; i++) {
+            const segment = paths[i];
+            if (!isString(segment)) {
+                throw new InvalidArgumentError("Arguments to path.join must be strings", "paths", segment, this.name);
+            }
+            if (!segment) {
+                continue;
+            }
+            const parts = splitUrl(segment);
+            if (!last) {
+                origin = parts.origin;
+                joined = parts.path;
+            } else if (parts.origin && parts.origin !== origin) {
+                throw new InvalidPathError(
+                    "Can't join \"" + segment + "\" to a path of another origin",
+                    "paths", segment, this.name
+                );
+            } else {
+                joined = joined.replace(/\/$/, "") + "/" + parts.path.replace(/^\//, "");
+            }
+            last = parts;
+        }
+        if (!last) {
+            return ".";
+        }
+        return this.normalize(joinUrl({
+            origin: origin,
+            path: joined,
+            query: last.query,
+            fragment: last.fragment
+        }));
+    }
+
+    // relative reference leading from the "from" directory to "to", origins
+    // which differ yield the resolved "to"
+    public relative(from: string, to: string): string {
+        const fromParts = splitUrl(this.resolve(from));
+        const toParts = splitUrl(this.resolve(to));
+        if (fromParts.origin !== toParts.origin) {
+            return joinUrl(toParts);
+        }
+
+        const fromSegments = fromParts.path.split("/").filter((s) => !!s);
+        const toSegments = toParts.path.split("/").filter((s) => !!s);
+        const length = Math.min(fromSegments.length, toSegments.length);
+        let samePartsLength = length;
+        for (let i = 0; i < length; i++) {
+            if (!equalStrings(fromSegments[i], toSegments[i], this.comparison)) {
+                samePartsLength = i;
+                break;
+            }
+        }
+
+        let outputParts = [];
+        for (let i = samePartsLength; i < fromSegments.length; i++) {
+            outputParts.push("..");
+        }
+        outputParts = outputParts.concat(toSegments.slice(samePartsLength));
+
+        let path = outputParts.join("/");
+        if (/^[^\/]*:/.test(path)) {
+            // the first segment would be mistaken for a scheme
+            path = "./" + path;
+        }
+        return joinUrl({ origin: "", path: path, query: toParts.query, fragment: toParts.fragment });
+    }
+
+    public toNamespacedPath(path: string): string {
+        return path;
+    }
+
+    public dirname(path: string): string {
+        validateString(path, "path", this.name);
+        const info = this.parse(path);
+        return info.dir || ".";
+    }
+
+    public basename(path: string, ext: string): string {
+        validateString(path, "path", this.name);
+        if (ext !== undefined) {
+            validateString(ext, "ext", this.name);
+        }
+        let f = this.parse(path).base;
+        if (ext && equalStrings(f.substr(-1 * ext.length), ext, this.comparison)) {
+            f = f.substr(0, f.length - ext.length);
+        }
+        return f;
+    }
+
+    public extname(path: string): string {
+        validateString(path, "path", this.name);
+        return this.parse(path).ext;
+    }
+
+    public format(pathObject: PathInfo): string {
+        if (!isObject(pathObject)) {
+            throw new InvalidArgumentError(
+                "Parameter \"pathObject\" must be an object, not " + typeof pathObject,
+                "pathObject", pathObject, this.name
+            );
+        }
+
+        const root = pathObject.root || "";
+
+        if (!isString(root)) {
+            throw new InvalidArgumentError(
+                "\"pathObject.root\" must be a string or undefined, not " +
+                typeof pathObject.root,
+                "pathObject.root", pathObject.root, this.name
+            );
+        }
+
+        const dir = pathObject.dir || root;
+        const base = pathObject.base || (pathObject.name || "") + (pathObject.ext || "");
+        if (!dir || dir[dir.length - 1] === this.separator) {
+            return dir + base;
+        }
+        return dir + this.separator + base;
+    }
+
+    public parse(pathString: string): PathInfo {
+        if (!isString(pathString)) {
+            throw new InvalidArgumentError(
+                "Parameter \"pathString\" must be a string, not " + typeof pathString,
+                "pathString", pathString, this.name
+            );
+        }
+        const parts = splitUrl(pathString);
+        const absolute = parts.path[0] === "/";
+        const root = parts.origin + (absolute ? "/" : "");
+        const tail = splitTailRe.exec(absolute ? parts.path.slice(1) : parts.path);
+        const dir = tail[1].slice(0, -1);
+
+        return {
+            root: root,
+            dir: root + dir,
+            base: tail[2],
+            ext: tail[3],
+            name: tail[2].slice(0, tail[2].length - tail[3].length)
+        };
+    }
+}
+
+export const urlDriver = new UrlDriver();
@@ -20,399 +20,595 @@
 // OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE
 // USE OR OTHER DEALINGS IN THE SOFTWARE.
 
+import { equalStrings } from "../compare";
+import { ComparisonPolicy, DriverOptions, PathDriver } from "../driver";
+import { InvalidArgumentError } from "../errors";
 import { PathInfo } from "../pathinfo";
 
-export let cwd = "";
-export const env: Record<string, string> = {};
-export const separator = "\\";
-export const delimiter = ";";
-
 
 function isString(value: any): value is string {
     return typeof(value) === "string";
 }
 
 function isObject(value: any): value is Record<string, string> {
-    return typeof(value) === "object";
+    return value !== null && typeof(value) === "object";
+}
+
+function validateString(value: any, argument: string, driver: string): void {
+    if (!isString(value)) {
+        throw new InvalidArgumentError(
+            "Parameter \"" + argument + "\" must be a string, not " + typeof value,
+            argument, value, driver
+        );
+    }
 }
 
-// resolves . and .. elements in a path array with directory names there
-// must be no slashes or device names (c:\) in the array
-// (so also no leading and trailing slashes - it does not distinguish
-// relative and absolute paths)
-function normalizeArray(parts: string[], allowAboveRoot: boolean): string[] {
-    let res = [];
-    for (let i = 0; i < parts.length; i++) {
-        let p = parts[i];
-
-        // ignore empty parts
-        if (!p || p === ".") {
-            continue;
-        }
-
-        if (p === "..") {
-            if (res.length && res[res.length - 1] !== "..") {
-                res.pop();
-            } else if (allowAboveRoot) {
-                res.push("..");
+// extensions given without the leading dot get one
+function formatExt(ext: string | undefined): string {
+    return ext ? (ext[0] === "." ? "" : ".") + ext : "";
+}
+
+const CHAR_DOT = 46;
+const CHAR_FORWARD_SLASH = 47;
+const CHAR_BACKWARD_SLASH = 92;
+const CHAR_COLON = 58;
+const CHAR_QUESTION_MARK = 63;
+
+function isPathSeparator(code: number): boolean {
+    return code === CHAR_FORWARD_SLASH || code === CHAR_BACKWARD_SLASH;
+}
+
+function isDriveLetter(code: number): boolean {
+    return (code >= 65 && code <= 90) || (code >= 97 && code <= 122);
+}
+
+// compares the char code to the ASCII letter ignoring its case
+function isLetter(code: number, lower: string): boolean {
+    return (code | 0x20) === lower.charCodeAt(0);
+}
+
+// resolves . and .. segments in a single pass over the char codes, there
+// must be no device in the path (it does not distinguish relative and
+// absolute paths), empty segments are dropped. Only path[start:] is read.
+function normalizeString(path: string, allowAboveRoot: boolean, start = 0): string {
+    let res = "";
+    let lastSegmentLength = 0;
+    let lastSlash = start - 1;
+    let dots = 0;
+    let code = 0;
+    for (let i = start; i <= path.length; i++) {
+        if (i < path.length) {
+            code = path.charCodeAt(i);
+        } else if (isPathSeparator(code)) {
+            break;
+        } else {
+            code = CHAR_BACKWARD_SLASH;
+        }
+
+        if (isPathSeparator(code)) {
+            if (lastSlash === i - 1 || dots === 1) {
+                // empty or "." segment
+            } else if (dots === 2) {
+                if (res.length && (lastSegmentLength !== 2 ||
+                    res.charCodeAt(res.length - 1) !== CHAR_DOT ||
+                    res.charCodeAt(res.length - 2) !== CHAR_DOT)) {
+                    // drop the last segment
+                    const lastSlashIndex = res.lastIndexOf("\\");
+                    res = lastSlashIndex === -1 ? "" : res.slice(0, lastSlashIndex);
+                    lastSegmentLength = res.length - 1 - res.lastIndexOf("\\");
+                } else if (allowAboveRoot) {
+                    res += res.length ? "\\.." : "..";
+                    lastSegmentLength = 2;
+                }
+            } else {
+                res += (res.length ? "\\" : "") + path.slice(lastSlash + 1, i);
+                lastSegmentLength = i - lastSlash - 1;
             }
+            lastSlash = i;
+            dots = 0;
+        } else if (code === CHAR_DOT && dots !== -1) {
+            dots++;
         } else {
-            res.push(p);
+            dots = -1;
         }
     }
     return res;
 }
 
-// returns an array with empty elements removed from either end of the input
-// array or the original array if no elements need to be removed
-function trimArray(arr: string[]): string[] {
-    let lastIndex = arr.length - 1;
-    let start = 0;
-    for (; start <= lastIndex; start++) {
-        if (arr[start]) {
-            break;
+// end of the name starting at the offset
+function segmentEnd(path: string, offset: number): number {
+    while (offset < path.length && !isPathSeparator(path.charCodeAt(offset))) {
+        offset++;
+    }
+    return offset;
+}
+
+// end of the separators starting at the offset
+function separatorsEnd(path: string, offset: number): number {
+    while (offset < path.length && isPathSeparator(path.charCodeAt(offset))) {
+        offset++;
+    }
+    return offset;
+}
+
+// start of the separators ending at the offset
+function separatorsStart(path: string, offset: number): number {
+    while (offset > 0 && isPathSeparator(path.charCodeAt(offset - 1))) {
+        offset--;
+    }
+    return offset;
+}
+
+// end of the "server\share" part of an UNC root starting at the offset, 0
+// when there is none
+function uncRootEnd(path: string, offset: number): number {
+    const serverEnd = segmentEnd(path, offset);
+    const shareStart = separatorsEnd(path, serverEnd);
+    if (serverEnd === offset || shareStart === serverEnd) {
+        return 0;
+    }
+    const shareEnd = segmentEnd(path, shareStart);
+    return shareEnd > shareStart ? shareEnd : 0;
+}
+
+// Length of the device the path starts with, the device is either a drive
+// letter, an UNC root or a namespaced root: \\?\C:, \\?\UNC\server\share
+// or \\.\device
+function deviceEnd(path: string): number {
+    if (path.length < 2) {
+        return 0;
+    }
+    const first = path.charCodeAt(0);
+    if (!isPathSeparator(first)) {
+        return isDriveLetter(first) && path.charCodeAt(1) === CHAR_COLON ? 2 : 0;
+    }
+    if (!isPathSeparator(path.charCodeAt(1))) {
+        return 0;
+    }
+
+    const marker = path.charCodeAt(2);
+    if ((marker === CHAR_QUESTION_MARK || marker === CHAR_DOT) && isPathSeparator(path.charCodeAt(3))) {
+        if (isLetter(path.charCodeAt(4), "u") && isLetter(path.charCodeAt(5), "n") &&
+            isLetter(path.charCodeAt(6), "c") && isPathSeparator(path.charCodeAt(7))) {
+            const end = uncRootEnd(path, separatorsEnd(path, 7));
+            if (end) {
+                return end;
+            }
+        }
+        if (isDriveLetter(path.charCodeAt(4)) && path.charCodeAt(5) === CHAR_COLON) {
+            return 6;
+        }
+        const end = segmentEnd(path, 4);
+        if (end > 4) {
+            return end;
         }
     }
+    return uncRootEnd(path, 2);
+}
 
-    let end = lastIndex;
-    for (; end >= 0; end--) {
-        if (arr[end]) {
-            break;
+function isNamespacedDevice(device: string): boolean {
+    const marker = device.charCodeAt(2);
+    return isPathSeparator(device.charCodeAt(0)) && isPathSeparator(device.charCodeAt(1)) &&
+        (marker === CHAR_QUESTION_MARK || marker === CHAR_DOT) && isPathSeparator(device.charCodeAt(3));
+}
+
+// offset of the last dot in path[start:end] or -1
+function lastDot(path: string, start: number, end: number): number {
+    for (let i = end - 1; i >= start; i--) {
+        if (path.charCodeAt(i) === CHAR_DOT) {
+            return i;
         }
     }
+    return -1;
+}
 
-    if (start === 0 && end === lastIndex) {
-        return arr;
+// Offset the extension of the name path[start:end] starts at, end when it
+// has none. Leading dots belong to the name except that ".." followed by
+// a single extension (eg. "...", "..js") gives a part of them to it.
+function extStart(path: string, start: number, end: number): number {
+    const length = end - start;
+    if (length === 1 && path.charCodeAt(start) === CHAR_DOT) {
+        return end;
     }
-    if (start > end) {
-        return [];
+    if (length >= 2 && path.charCodeAt(start) === CHAR_DOT && path.charCodeAt(start + 1) === CHAR_DOT) {
+        if (length === 2) {
+            return end;
+        }
+        if (path.charCodeAt(start + 2) === CHAR_DOT && lastDot(path, start + 3, end) === -1) {
+            return start + 2;
+        }
+        if (lastDot(path, start + 2, end) === -1) {
+            return start + 1;
+        }
     }
-    return arr.slice(start, end + 1);
+    const dot = lastDot(path, start + 1, end);
+    return dot === -1 ? end : dot;
+}
+
+// length of the root, the device followed by a separator
+function rootLength(path: string): number {
+    const device = deviceEnd(path);
+    return isPathSeparator(path.charCodeAt(device)) ? device + 1 : device;
 }
 
-// Regex to split a windows path into three parts: [*, device, slash,
-// tail] windows-only
-const splitDeviceRe =
-    /^([a-zA-Z]:|[\\\/]{2}[^\\\/]+[\\\/]+[^\\\/]+)?([\\\/])?([\s\S]*?)$/;
-
-// Regex to split the tail part of the above into [*, dir, basename, ext]
-const splitTailRe =
-    /^([\s\S]*?)((?:\.{1,2}|[^\\\/]+?|)(\.[^.\/\\]*|))(?:[\\\/]*)$/;
-
-// Function to split a filename into [root, dir, basename, ext]
-function splitPath(filename: string): [string, string, string, string] {
-    // Separate device+slash from tail
-    const result = splitDeviceRe.exec(filename);
-    const device = (result[1] || "") + (result[2] || "");
-    const tail = result[3] || "";
-    // Split the tail into dir, basename and extension
-    const result2 = splitTailRe.exec(tail),
-    dir = result2[1],
-    basename = result2[2],
-    ext = result2[3];
-    return [device, dir, basename, ext];
+// Offsets the parts of the path are found at: [root end, base start, base
+// end], the trailing separators are not part of the base
+function splitPath(path: string): [number, number, number] {
+    const rootEnd = rootLength(path);
+    let end = path.length;
+    while (end > rootEnd && isPathSeparator(path.charCodeAt(end - 1))) {
+        end--;
+    }
+    let start = end;
+    while (start > rootEnd && !isPathSeparator(path.charCodeAt(start - 1))) {
+        start--;
+    }
+    return [rootEnd, start, end];
 }
 
-type PathStat = {
+export type PathStat = {
     device: string,
     tail: string,
     isUnc: boolean,
     isAbsolute: boolean,
+    isNamespaced: boolean,
 };
 
-function statPath(path: string): PathStat {
-    const result = splitDeviceRe.exec(path);
-    const device = result[1] || "";
-    const isUnc = !!device && device[1] !== ":";
+export function statPath(path: string): PathStat {
+    const end = deviceEnd(path);
+    const device = path.slice(0, end);
+    const slash = isPathSeparator(path.charCodeAt(end));
+    const isUnc = !!device && device.charCodeAt(1) !== CHAR_COLON;
     return {
         device: device,
         isUnc: isUnc,
-        isAbsolute: isUnc || !!result[2], // UNC paths are always absolute
-        tail: result[3]
+        isAbsolute: isUnc || slash, // UNC paths are always absolute
+        isNamespaced: isNamespacedDevice(device),
+        tail: path.slice(slash ? end + 1 : end)
     };
 }
 
+// squashes the separators of the UNC root into single backslashes
 function normalizeUNCRoot(device: string): string {
-    return "\\\\" + device.replace(/^[\\\/]+/, "").replace(/[\\\/]+/g, "\\");
+    let result = "\\\\";
+    let start = separatorsEnd(device, 0);
+    while (start < device.length) {
+        const end = segmentEnd(device, start);
+        result += device.slice(start, end);
+        start = separatorsEnd(device, end);
+        if (end < device.length) {
+            result += "\\";
+        }
+    }
+    return result;
 }
 
-// path.resolve([from ...], to)
-export function resolve(...paths: string[]): string {
-    let resolvedDevice = "";
-    let resolvedTail = "";
-    let resolvedAbsolute = false;
-    let isUnc = false;
-
-    for (let i = paths.length - 1; i >= -1; i--) {
-        let path;
-        if (i >= 0) {
-            path = paths[i];
-        } else if (!resolvedDevice) {
-            path = cwd;
-        } else {
-            // Windows has the concept of drive-specific current working
-            // directories. If we"ve resolved a drive letter but not yet an
-            // absolute path, get cwd for that drive. We"re sure the device is not
-            // an unc path at this points, because unc paths are always absolute.
-            path = env["=" + resolvedDevice];
-            // Verify that a drive-local cwd was found and that it actually points
-            // to our drive. If not, default to the drive"s root.
-            if (!path || path.substr(0, 3).toLowerCase() !== resolvedDevice.toLowerCase() + "\\") {
-                path = resolvedDevice + "\\";
+export class Win32Driver implements PathDriver {
+    public readonly name = "win32";
+    public readonly separator = "\\";
+    public readonly delimiter = ";";
+    public cwd: string;
+    public env: Record<string, string>;
+    public comparison: ComparisonPolicy;
+
+    public constructor(options: DriverOptions = {}) {
+        this.cwd = options.cwd || "";
+        this.env = options.env || {};
+        this.comparison = options.comparison || { caseSensitive: false };
+    }
+
+    // path.resolve([from ...], to)
+    public resolve(...paths: string[]): string {
+        let resolvedDevice = "";
+        let resolvedTail = "";
+        let resolvedAbsolute = false;
+        let isUnc = false;
+
+        for (let i = paths.length - 1; i >= -1; i--) {
+            let path;
+            if (i >= 0) {
+                path = paths[i];
+            } else if (!resolvedDevice) {
+                path = this.cwd;
+            } else {
+                // Windows has the concept of drive-specific current working
+                // directories. If we"ve resolved a drive letter but not yet an
+                // absolute path, get cwd for that drive. We"re sure the device is not
+                // an unc path at this points, because unc paths are always absolute.
+                // The cwd counts when it is on the same drive.
+                path = this.env["=" + resolvedDevice] || this.cwd;
+                // Verify that a drive-local cwd was found and that it actually points
+                // to our drive. If not, default to the drive"s root.
+                if (!path || path.substr(0, 3).toLowerCase() !== resolvedDevice.toLowerCase() + "\\") {
+                    path = resolvedDevice + "\\";
+                }
             }
-        }
 
-        // Skip empty and invalid entries
-        if (!isString(path)) {
-            throw new TypeError("Arguments to path.resolve must be strings");
-        } else if (!path) {
-            continue;
-        }
+            // Skip empty and invalid entries
+            if (!isString(path)) {
+                throw new InvalidArgumentError("Arguments to path.resolve must be strings", "paths", path, this.name);
+            } else if (!path) {
+                continue;
+            }
 
-        const result = statPath(path);
-        let device = result.device;
-        let isAbsolute = result.isAbsolute;
-        let tail = result.tail;
-        isUnc = result.isUnc;
+            const result = statPath(path);
+            const device = result.device;
+            const isAbsolute = result.isAbsolute;
+            const tail = result.tail;
+            isUnc = result.isUnc;
 
-        if (device && resolvedDevice && device.toLowerCase() !== resolvedDevice.toLowerCase()) {
-            // This path points to another device so it is not applicable
-            continue;
-        }
+            if (device && resolvedDevice && device.toLowerCase() !== resolvedDevice.toLowerCase()) {
+                // This path points to another device so it is not applicable
+                continue;
+            }
 
-        if (!resolvedDevice) {
-            resolvedDevice = device;
-        }
-        if (!resolvedAbsolute) {
-            resolvedTail = tail + "\\" + resolvedTail;
-            resolvedAbsolute = isAbsolute;
-        }
+            if (!resolvedDevice) {
+                resolvedDevice = device;
+            }
+            if (!resolvedAbsolute) {
+                resolvedTail = tail + "\\" + resolvedTail;
+                resolvedAbsolute = isAbsolute;
+            }
 
-        if (resolvedDevice && resolvedAbsolute) {
-            break;
+            if (resolvedDevice && resolvedAbsolute) {
+                break;
+            }
         }
-    }
 
-    // Convert slashes to backslashes when `resolvedDevice` points to an UNC
-    // root. Also squash multiple slashes into a single one where appropriate.
-    if (isUnc) {
-        resolvedDevice = normalizeUNCRoot(resolvedDevice);
-    }
+        // Convert slashes to backslashes when `resolvedDevice` points to an UNC
+        // root. Also squash multiple slashes into a single one where appropriate.
+        if (isUnc) {
+            resolvedDevice = normalizeUNCRoot(resolvedDevice);
+        }
 
-    // At this point the path should be resolved to a full absolute path,
-    // but handle relative paths to be safe (might happen when process.cwd()
-    // fails)
+        // At this point the path should be resolved to a full absolute path,
+        // but handle relative paths to be safe (might happen when process.cwd()
+        // fails)
 
-    // Normalize the tail path
-    resolvedTail = normalizeArray(resolvedTail.split(/[\\\/]+/), !resolvedAbsolute).join("\\");
+        // Normalize the tail path
+        resolvedTail = normalizeString(resolvedTail, !resolvedAbsolute);
 
-    return (resolvedDevice + (resolvedAbsolute ? "\\" : "") + resolvedTail) || ".";
-}
-
-export function normalize(path: string): string {
-    const result = statPath(path);
-    let device = result.device;
-    const isUnc = result.isUnc;
-    const isAbsolute = result.isAbsolute;
-    let tail = result.tail;
-    const trailingSlash = /[\\\/]$/.test(tail);
-  
-    // Normalize the tail path
-    tail = normalizeArray(tail.split(/[\\\/]+/), !isAbsolute).join("\\");
-  
-    if (!tail && !isAbsolute) {
-        tail = ".";
-    }
-    if (tail && trailingSlash) {
-        tail += "\\";
+        return (resolvedDevice + (resolvedAbsolute ? "\\" : "") + resolvedTail) || ".";
     }
-  
-    // Convert slashes to backslashes when `device` points to an UNC root.
-    // Also squash multiple slashes into a single one where appropriate.
-    if (isUnc) {
-        device = normalizeUNCRoot(device);
-    }
-  
-    return device + (isAbsolute ? "\\" : "") + tail;
-}
-
-export function isAbsolute(path: string): boolean {
-    return statPath(path).isAbsolute;
-}
 
-export function join(...paths: string[]): string {
-    paths = paths.filter((arg) => {
-        if (!isString(arg)) {
-            throw new TypeError("Arguments to path.join must be strings");
-        }
-        return !!arg;
-    });
-
-    let joined = paths.join("\\");
-
-    // Make sure that the joined path doesn"t start with two slashes, because
-    // normalize() will mistake it for an UNC path then.
-    //
-    // This step is skipped when it is very clear that the user actually
-    // intended to point at an UNC path. This is assumed when the first
-    // non-empty string arguments starts with exactly two slashes followed by
-    // at least one more non-slash character.
-    //
-    // Note that for normalize() to treat a path as an UNC path it needs to
-    // have at least 2 components, so we don"t filter for that here.
-    // This means that the user can use join to construct UNC paths from
-    // a server name and a share name; for example:
-    //   path.join("//server", "share") -> "\\\\server\\share\")
-    if (!/^[\\\/]{2}[^\\\/]/.test(paths[0])) {
-        joined = joined.replace(/^[\\\/]{2,}/, "\\");
-    }
-
-    return normalize(joined);
-}
+    public normalize(path: string): string {
+        validateString(path, "path", this.name);
+        // like statPath() without slicing the tail off the path
+        const end = deviceEnd(path);
+        let device = path.slice(0, end);
+        const isUnc = end > 0 && path.charCodeAt(1) !== CHAR_COLON;
+        const slash = isPathSeparator(path.charCodeAt(end));
+        const isAbsolute = isUnc || slash;
+        const tailStart = slash ? end + 1 : end;
+        const trailingSlash = path.length > tailStart && isPathSeparator(path.charCodeAt(path.length - 1));
+
+        // Normalize the tail path
+        let tail = normalizeString(path, !isAbsolute, tailStart);
+
+        if (!tail && !isAbsolute) {
+            tail = ".";
+        }
+        if (tail && trailingSlash) {
+            tail += "\\";
+        }
 
+        // Convert slashes to backslashes when `device` points to an UNC root.
+        // Also squash multiple slashes into a single one where appropriate.
+        if (isUnc) {
+            device = normalizeUNCRoot(device);
+        }
 
-// path.relative(from, to)
-// it will solve the relative path from "from" to "to", for instance:
-// from = "C:\\orandea\\test\\aaa"
-// to = "C:\\orandea\\impl\\bbb"
-// The output of the function should be: "..\\..\\impl\\bbb"
-export function relative(from: string, to: string): string {
-    from = resolve(from);
-    to = resolve(to);
+        return device + (isAbsolute ? "\\" : "") + tail;
+    }
 
-    // windows is not case sensitive
-    let lowerFrom = from.toLowerCase();
-    let lowerTo = to.toLowerCase();
+    public isAbsolute(path: string): boolean {
+        validateString(path, "path", this.name);
+        return statPath(path).isAbsolute;
+    }
 
-    let toParts = trimArray(to.split("\\"));
+    public join(...paths: string[]): string {
+        paths = paths.filter((arg) => {
+            if (!isString(arg)) {
+                throw new InvalidArgumentError("Arguments to path.join must be strings", "paths", arg, this.name);
+            }
+            return !!arg;
+        });
+
+        let joined = paths.join("\\");
+
+        // Make sure that the joined path doesn"t start with two slashes, because
+        // normalize() will mistake it for an UNC path then.
+        //
+        // This step is skipped when it is very clear that the user actually
+        // intended to point at an UNC path. This is assumed when the first
+        // non-empty string arguments starts with exactly two slashes followed by
+        // at least one more non-slash character.
+        //
+        // Note that for normalize() to treat a path as an UNC path it needs to
+        // have at least 2 components, so we don"t filter for that here.
+        // This means that the user can use join to construct UNC paths from
+        // a server name and a share name; for example:
+        //   path.join("//server", "share") -> "\\\\server\\share\")
+        const first = paths.length ? paths[0] : "";
+        if (!(isPathSeparator(first.charCodeAt(0)) && isPathSeparator(first.charCodeAt(1)) &&
+            first.length > 2 && !isPathSeparator(first.charCodeAt(2)))) {
+            const slashes = separatorsEnd(joined, 0);
+            if (slashes >= 2) {
+                joined = "\\" + joined.slice(slashes);
+            }
+        }
 
-    let lowerFromParts = trimArray(lowerFrom.split("\\"));
-    let lowerToParts = trimArray(lowerTo.split("\\"));
+        return this.normalize(joined);
+    }
 
-    let length = Math.min(lowerFromParts.length, lowerToParts.length);
-    let samePartsLength = length;
 
-    for (let i = 0; i < length; i++) {
-        if (lowerFromParts[i] !== lowerToParts[i]) {
-            samePartsLength = i;
-            break;
+    // path.relative(from, to)
+    // it will solve the relative path from "from" to "to", for instance:
+    // from = "C:\\orandea\\test\\aaa"
+    // to = "C:\\orandea\\impl\\bbb"
+    // The output of the function should be: "..\\..\\impl\\bbb"
+    public relative(from: string, to: string): string {
+        from = this.resolve(from);
+        to = this.resolve(to);
+
+        // the resolved paths only have backslashes, their names are walked
+        // in place without the leading and trailing ones
+        let fromStart = separatorsEnd(from, 0);
+        let toStart = separatorsEnd(to, 0);
+        const fromEnd = separatorsStart(from, from.length);
+        const toEnd = separatorsStart(to, to.length);
+        let samePartsLength = 0;
+
+        // windows is not case sensitive, the comparison policy says how
+        // the names are matched
+        while (fromStart < fromEnd && toStart < toEnd) {
+            const fromPart = segmentEnd(from, fromStart);
+            const toPart = segmentEnd(to, toStart);
+            if (!equalStrings(from.slice(fromStart, fromPart), to.slice(toStart, toPart), this.comparison)) {
+                break;
+            }
+            samePartsLength++;
+            fromStart = fromPart + 1;
+            toStart = toPart + 1;
         }
-    }
 
-    if (samePartsLength == 0) {
-        return to;
-    }
+        if (samePartsLength === 0) {
+            return to;
+        }
 
-    let outputParts = [];
-    for (var i = samePartsLength; i < lowerFromParts.length; i++) {
-        outputParts.push("..");
+        let output = "";
+        while (fromStart < fromEnd) {
+            output += output ? "\\.." : "..";
+            fromStart = segmentEnd(from, fromStart) + 1;
+        }
+        if (toStart < toEnd) {
+            output += (output ? "\\" : "") + to.slice(toStart, toEnd);
+        }
+        return output;
     }
 
-    outputParts = outputParts.concat(toParts.slice(samePartsLength));
-
-    return outputParts.join("\\");
-};
 
+    // Converts the path to its \\?\ form which lifts the MAX_PATH limit,
+    // paths already in a namespace are returned untouched.
+    public toNamespacedPath(path: string): string {
+        // Note: this will *probably* throw somewhere.
+        if (!isString(path)) {
+            return path;
+        }
+        if (!path) {
+            return "";
+        }
 
-function _makeLong(path: string): string {
-    // Note: this will *probably* throw somewhere.
-    if (!isString(path)) {
+        const resolvedPath = this.resolve(path);
+        const result = statPath(resolvedPath);
+
+        if (result.isNamespaced) {
+            // path is already in the verbatim or device namespace
+            return path;
+        } else if (result.isUnc) {
+            // path is network UNC path, which needs to be converted
+            // to long UNC path.
+            return "\\\\?\\UNC\\" + resolvedPath.substring(2);
+        } else if (result.device && result.isAbsolute) {
+            // path is local filesystem path, which needs to be converted
+            // to long UNC path.
+            return "\\\\?\\" + resolvedPath;
+        }
         return path;
     }
-    if (!path) {
-        return "";
-    }
-
-    const resolvedPath = resolve(path);
-
-    if (/^[a-zA-Z]\:\\/.test(resolvedPath)) {
-        // path is local filesystem path, which needs to be converted
-        // to long UNC path.
-        return "\\\\?\\" + resolvedPath;
-    } else if (/^\\\\[^?.]/.test(resolvedPath)) {
-        // path is network UNC path, which needs to be converted
-        // to long UNC path.
-        return "\\\\?\\UNC\\" + resolvedPath.substring(2);
-    }
-    return path;
-};
 
 
-export function dirname(path: string): string {
-    const result = splitPath(path);
-    const root = result[0];
-    let dir = result[1];
+    public dirname(path: string): string {
+        validateString(path, "path", this.name);
+        // splitPath() inlined, dirname does not need the end of the base
+        const rootEnd = rootLength(path);
+        let start = path.length;
+        while (start > rootEnd && isPathSeparator(path.charCodeAt(start - 1))) {
+            start--;
+        }
+        while (start > rootEnd && !isPathSeparator(path.charCodeAt(start - 1))) {
+            start--;
+        }
 
-    if (!root && !dir) {
+        if (start > rootEnd) {
+            // It has a dirname, strip trailing slash
+            return path.slice(0, start - 1);
+        }
         // No dirname whatsoever
-        return ".";
-    }
-    if (dir) {
-        // It has a dirname, strip trailing slash
-        dir = dir.substr(0, dir.length - 1);
+        return rootEnd ? path.slice(0, rootEnd) : ".";
     }
 
-    return root + dir;
-};
-
 
-export function basename(path: string, ext: string): string {
-    let f = splitPath(path)[2];
-    if (ext && f.substr(-1 * ext.length).toLowerCase() === ext.toLowerCase()) {
-        f = f.substr(0, f.length - ext.length);
+    public basename(path: string, ext: string): string {
+        validateString(path, "path", this.name);
+        if (ext !== undefined) {
+            validateString(ext, "ext", this.name);
+        }
+        const [, start, end] = splitPath(path);
+        let f = path.slice(start, end);
+        // the extension is only removed when some of the name remains,
+        // except for a path made of the extension alone
+        if (ext === path) {
+            return "";
+        }
+        if (ext && ext.length < f.length && equalStrings(f.substr(-1 * ext.length), ext, this.comparison)) {
+            f = f.substr(0, f.length - ext.length);
+        }
+        return f;
     }
-    return f;
-};
 
 
-export function extname(path: string): string {
-    return splitPath(path)[3];
-};
+    public extname(path: string): string {
+        validateString(path, "path", this.name);
+        const [, start, end] = splitPath(path);
+        return path.slice(extStart(path, start, end), end);
+    }
 
 
-export function format(pathObject: PathInfo): string {
-    if (!isObject(pathObject)) {
-        throw new TypeError(
-            "Parameter \"pathObject\" must be an object, not " + typeof pathObject
-        );
-    }
+    public format(pathObject: PathInfo): string {
+        if (!isObject(pathObject)) {
+            throw new InvalidArgumentError(
+                "Parameter \"pathObject\" must be an object, not " + typeof pathObject,
+                "pathObject", pathObject, this.name
+            );
+        }
 
-    const root = pathObject.root || "";
+        const root = pathObject.root || "";
 
-    if (!isString(root)) {
-        throw new TypeError(
-            "\"pathObject.root\" must be a string or undefined, not " +
-            typeof pathObject.root
-        );
-    }
+        if (!isString(root)) {
+            throw new InvalidArgumentError(
+                "\"pathObject.root\" must be a string or undefined, not " +
+                typeof pathObject.root,
+                "pathObject.root", pathObject.root, this.name
+            );
+        }
 
-    const dir = pathObject.dir;
-    const base = pathObject.base || "";
-    if (!dir) {
-        return base;
-    }
-    if (dir[dir.length - 1] === separator) {
-        return dir + base;
+        const dir = pathObject.dir || root;
+        const base = pathObject.base || (pathObject.name || "") + formatExt(pathObject.ext);
+        if (!dir) {
+            return base;
+        }
+        return dir === root ? dir + base : dir + this.separator + base;
     }
-    return dir + separator + base;
-};
 
 
-export function parse(pathString: string): PathInfo {
-    if (!isString(pathString)) {
-        throw new TypeError(
-            "Parameter \"pathString\" must be a string, not " + typeof pathString
-        );
-    }
-    const allParts = splitPath(pathString);
-    if (!allParts || allParts.length !== 4) {
-        throw new TypeError("Invalid path \"" + pathString + "\"");
+    public parse(pathString: string): PathInfo {
+        if (!isString(pathString)) {
+            throw new InvalidArgumentError(
+                "Parameter \"pathString\" must be a string, not " + typeof pathString,
+                "pathString", pathString, this.name
+            );
+        }
+        const [rootEnd, start, end] = splitPath(pathString);
+        const ext = extStart(pathString, start, end);
+        return {
+            root: pathString.slice(0, rootEnd),
+            dir: pathString.slice(0, start > rootEnd ? start - 1 : rootEnd),
+            base: pathString.slice(start, end),
+            ext: pathString.slice(ext, end),
+            name: pathString.slice(start, ext)
+        };
     }
-    return {
-        root: allParts[0],
-        dir: allParts[0] + allParts[1].slice(0, -1),
-        base: allParts[2],
-        ext: allParts[3],
-        name: allParts[2].slice(0, allParts[2].length - allParts[3].length)
-    };
-};
\ No newline at end of file
+}
+
+export const win32Driver = new Win32Driver();
@@ -0,0 +1,39 @@
+// Base class of all errors thrown by the library. It extends TypeError so
+// code written against the plain TypeError throws keeps working.
+export class PathError extends TypeError {
+    public readonly code: string;
+    public readonly driver: string | undefined;
+
+    public constructor(message: string, code: string, driver?: string) {
+        super(message);
+        this.name = "PathError";
+        this.code = code;
+        this.driver = driver;
+    }
+}
+
+// Argument of a wrong type or with a value out of the accepted set
+export class InvalidArgumentError extends PathError {
+    public readonly argument: string;
+    public readonly value: unknown;
+
+    public constructor(message: string, argument: string, value: unknown, driver?: string, code = "ERR_INVALID_ARG_TYPE") {
+        super(message, code, driver);
+        this.name = "InvalidArgumentError";
+        this.argument = argument;
+        this.value = value;
+    }
+}
+
+// Well-typed path (or URL) the operation can't handle
+export class InvalidPathError extends PathError {
+    public readonly argument: string;
+    public readonly value: unknown;
+
+    public constructor(message: string, argument: string, value: unknown, driver?: string, code = "ERR_INVALID_PATH") {
+        super(message, code, driver);
+        this.name = "InvalidPathError";
+        this.argument = argument;
+        this.value = value;
+    }
+}
@@ -0,0 +1,137 @@
+import { foldCase } from "./compare";
+import { PathDriver } from "./driver";
+import { InvalidPathError } from "./errors";
+import { startsWith } from "./segments";
+
+export interface ExpandOptions {
+    // throw for undefined variables and unknown users instead of keeping
+    // the reference as it is
+    strict?: boolean;
+    // honor "\$" and "\~" on posix and "%%" on win32, defaults to true
+    escape?: boolean;
+    // home directories of other users for "~user", by default they are
+    // looked up next to the home directory of the current user
+    users?: Record<string, string>;
+}
+
+const posixVariableRe = /\\([$\\])|\$\{([A-Za-z_][A-Za-z0-9_]*)\}|\$([A-Za-z_][A-Za-z0-9_]*)/g;
+// the same without the escapes, the empty group keeps the group numbers
+const posixUnescapedVariableRe = /()\$\{([A-Za-z_][A-Za-z0-9_]*)\}|\$([A-Za-z_][A-Za-z0-9_]*)/g;
+const win32VariableRe = /(%%)|%([^%=\r\n]+)%/g;
+
+// variable lookup, win32 names are case-insensitive
+export function getEnv(name: string, driver: PathDriver): string | undefined {
+    const env = driver.env || {};
+    if (Object.prototype.hasOwnProperty.call(env, name) || driver.name !== "win32") {
+        return Object.prototype.hasOwnProperty.call(env, name) ? env[name] : undefined;
+    }
+    const key = foldCase(name);
+    for (const candidate of Object.keys(env)) {
+        if (foldCase(candidate) === key) {
+            return env[candidate];
+        }
+    }
+    return undefined;
+}
+
+// Home directory of the current user from the driver env
+export function homedir(driver: PathDriver): string | undefined {
+    if (driver.name === "win32") {
+        const profile = getEnv("USERPROFILE", driver);
+        if (profile) {
+            return profile;
+        }
+        const drive = getEnv("HOMEDRIVE", driver);
+        const path = getEnv("HOMEPATH", driver);
+        if (drive && path) {
+            return drive + path;
+        }
+    }
+    return getEnv("HOME", driver) || undefined;
+}
+
+function undefinedReference(path: string, reference: string, driver: PathDriver): InvalidPathError {
+    return new InvalidPathError(
+        "Path \"" + path + "\" refers to undefined \"" + reference + "\"",
+        "path", path, driver.name, "ERR_UNDEFINED_REFERENCE"
+    );
+}
+
+// splits the path into the expanded "~" or "~user" prefix and the rest
+function expandTilde(path: string, options: ExpandOptions, driver: PathDriver): [string, string] {
+    const tilde = (driver.name === "win32" ? /^~([^\\\/]*)(?=[\\\/]|$)/ : /^~([^\/]*)(?=\/|$)/).exec(path);
+    if (!tilde) {
+        return ["", path];
+    }
+    const user = tilde[1];
+    const home = homedir(driver);
+    let target: string | undefined;
+    if (!user) {
+        target = home;
+    } else if (options.users && Object.prototype.hasOwnProperty.call(options.users, user)) {
+        target = options.users[user];
+    } else if (home) {
+        target = driver.join(driver.dirname(home), user);
+    }
+    if (target === undefined) {
+        if (options.strict) {
+            throw undefinedReference(path, tilde[0], driver);
+        }
+        return ["", path];
+    }
+    return [target, path.slice(tilde[0].length)];
+}
+
+// Expands "~" and "~user" at the start of the path followed by "$VAR" and
+// "${VAR}" on posix or "%VAR%" on win32, the values come from the driver
+// env. Variables are only expanded after the tilde prefix, the home
+// directory is taken as it is. The result is not normalized.
+export function expand(path: string, options: ExpandOptions, driver: PathDriver): string {
+    const escape = options.escape !== false;
+    if (driver.name === "win32") {
+        const [home, rest] = expandTilde(path, options, driver);
+        return home + rest.replace(win32VariableRe, (match: string, percent: string, name: string) => {
+            if (percent) {
+                return escape ? "%" : match;
+            }
+            const value = getEnv(name, driver);
+            if (value === undefined) {
+                if (options.strict) {
+                    throw undefinedReference(path, match, driver);
+                }
+                return match;
+            }
+            return value;
+        });
+    }
+
+    const [home, rest] = escape && path.substr(0, 2) === "\\~"
+        ? ["", path.slice(1)]
+        : expandTilde(path, options, driver);
+    const re = escape ? posixVariableRe : posixUnescapedVariableRe;
+    return home + rest.replace(re, (match: string, escaped: string, braced: string, plain: string) => {
+        if (escaped) {
+            return escaped;
+        }
+        const name = braced || plain;
+        const value = getEnv(name, driver);
+        if (value === undefined) {
+            if (options.strict) {
+                throw undefinedReference(path, match, driver);
+            }
+            return match;
+        }
+        return value;
+    });
+}
+
+// Replaces the home directory at the start of the path with "~", paths
+// outside of it are returned unchanged
+export function contract(path: string, driver: PathDriver): string {
+    const home = homedir(driver);
+    if (!home || !startsWith(path, home, driver)) {
+        return path;
+    }
+    const rest = driver.relative(home, path);
+    return rest ? "~" + driver.separator + rest : "~";
+}
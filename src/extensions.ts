@@ -0,0 +1,105 @@
+import { equalStrings } from "./compare";
+import { PathDriver } from "./driver";
+import { PathInfo } from "./pathinfo";
+
+export interface ExtensionOptions {
+    // number of trailing extensions to replace, defaults to 1
+    parts?: number;
+    // treat the known compound extensions (eg. ".tar.gz") as a single one
+    compound?: boolean;
+}
+
+export interface ParseOptions {
+    // fill ext and name using the known compound extensions
+    compound?: boolean;
+}
+
+export const defaultCompoundExtensions: ReadonlyArray<string> = [
+    ".tar.gz",
+    ".tar.bz2",
+    ".tar.xz",
+    ".tar.zst",
+    ".d.ts",
+    ".d.mts",
+    ".d.cts",
+    ".spec.ts",
+    ".spec.js",
+    ".test.ts",
+    ".test.js",
+    ".min.js",
+    ".min.css"
+];
+
+// base name with the trailing separators stripped and the offsets it
+// starts and ends at, the query and fragment of urls follow the path
+function locateBase(path: string, driver: PathDriver): [string, number, number] {
+    const base = driver.basename(path, "");
+    const suffix = driver.name === "url" ? path.search(/[?#]/) : -1;
+    let end = suffix >= 0 ? suffix : path.length;
+    while (end > 0 && (path[end - 1] === driver.separator || path[end - 1] === "/")) {
+        end--;
+    }
+    return [base, end - base.length, end];
+}
+
+// All the extensions of the base name, leading dots belong to the name
+// so ".eslintrc.json" has only ".json"
+export function extnames(path: string, driver: PathDriver): string[] {
+    const base = driver.basename(path, "");
+    const leading = /^\.*/.exec(base)[0].length;
+    if (leading === base.length) {
+        return [];
+    }
+    return base.slice(leading).split(".").slice(1).map((ext) => "." + ext);
+}
+
+// The longest of the compound extensions the base name ends with, the name
+// must not end up empty
+export function compoundExtname(path: string, compound: ReadonlyArray<string>, driver: PathDriver): string {
+    const base = driver.basename(path, "");
+    let result = "";
+    for (const ext of compound) {
+        if (ext.length > result.length && base.length > ext.length &&
+            equalStrings(base.slice(-ext.length), ext, driver.comparison)) {
+            result = base.slice(-ext.length);
+        }
+    }
+    return result;
+}
+
+export function replaceExt(path: string, ext: string, options: ExtensionOptions,
+    compound: ReadonlyArray<string>, driver: PathDriver): string {
+    if (ext && ext[0] !== ".") {
+        ext = "." + ext;
+    }
+    const [base, start, end] = locateBase(path, driver);
+    if (!base || base === "." || base === "..") {
+        return path;
+    }
+
+    let old = options.compound ? compoundExtname(base, compound, driver) : "";
+    if (!old) {
+        const all = extnames(base, driver);
+        const parts = options.parts === undefined ? 1 : Math.max(0, options.parts);
+        old = parts ? all.slice(-parts).join("") : "";
+    }
+    return path.slice(0, start) + base.slice(0, base.length - old.length) + ext + path.slice(end);
+}
+
+export function stripExt(path: string, options: ExtensionOptions,
+    compound: ReadonlyArray<string>, driver: PathDriver): string {
+    return replaceExt(path, "", options, compound, driver);
+}
+
+export function parseCompound(path: string, options: ParseOptions,
+    compound: ReadonlyArray<string>, driver: PathDriver): PathInfo {
+    const info = driver.parse(path);
+    if (options.compound) {
+        const ext = compoundExtname(info.base || "", compound, driver);
+        if (ext) {
+            info.ext = ext;
+            info.name = info.base.slice(0, info.base.length - ext.length);
+        }
+    }
+    return info;
+}
@@ -0,0 +1,168 @@
+import { PathDriver } from "./driver";
+import { InvalidArgumentError } from "./errors";
+import { win32ForbiddenCharRe, win32ReservedNameRe, win32TrailingRe } from "./safety";
+
+// "portable" names are accepted by both posix and win32
+export type FilenameTarget = "posix" | "win32" | "portable";
+
+export interface FilenameOptions {
+    // rules the name must follow, defaults to the ones of the driver
+    target?: FilenameTarget;
+}
+
+export interface SanitizeOptions extends FilenameOptions {
+    // put in place of each forbidden character, defaults to removing them
+    replacement?: string;
+}
+
+export interface FilenameCheck {
+    valid: boolean;
+    // why the name was rejected, set only when it is not valid
+    reason?: string;
+}
+
+// longest name in UTF-8 bytes most posix file systems accept
+const posixMaxBytes = 255;
+// longest name in UTF-16 code units NTFS accepts
+const win32MaxUnits = 255;
+
+const posixForbiddenCharRe = /[\/\x00]/;
+
+function resolveTarget(options: FilenameOptions, driver: PathDriver): FilenameTarget {
+    const target = options.target || (driver.name === "win32" ? "win32" : "posix");
+    if (target !== "posix" && target !== "win32" && target !== "portable") {
+        throw new InvalidArgumentError(
+            "The \"target\" option must be one of \"posix\", \"win32\" or \"portable\"",
+            "target", target, driver.name, "ERR_INVALID_ARG_VALUE"
+        );
+    }
+    return target;
+}
+
+function forbiddenCharRe(target: FilenameTarget): RegExp {
+    // win32 takes both "/" and "\" as separators, NUL is in the control range
+    return target === "posix" ? posixForbiddenCharRe : new RegExp("[\\\\\\/]|" + win32ForbiddenCharRe.source);
+}
+
+function utf8Length(char: string): number {
+    const code = char.codePointAt(0);
+    return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+}
+
+// length in UTF-8 bytes and UTF-16 code units
+function measure(name: string): [number, number] {
+    let bytes = 0;
+    for (const char of name) {
+        bytes += utf8Length(char);
+    }
+    return [bytes, name.length];
+}
+
+function withinLimits(bytes: number, units: number, target: FilenameTarget): boolean {
+    return (target === "win32" || bytes <= posixMaxBytes) &&
+        (target === "posix" || units <= win32MaxUnits);
+}
+
+function fitsLength(name: string, target: FilenameTarget): boolean {
+    const [bytes, units] = measure(name);
+    return withinLimits(bytes, units, target);
+}
+
+// longest run of whole code points from the start of the name which still
+// fits together with the suffix
+function truncate(name: string, suffix: string, target: FilenameTarget): string {
+    let [bytes, units] = measure(suffix);
+    let result = "";
+    for (const char of name) {
+        bytes += utf8Length(char);
+        units += char.length;
+        if (!withinLimits(bytes, units, target)) {
+            break;
+        }
+        result += char;
+    }
+    return result;
+}
+
+export function checkFilename(name: string, options: FilenameOptions, driver: PathDriver): string | undefined {
+    const target = resolveTarget(options, driver);
+    if (typeof(name) !== "string") {
+        return "name is not a string";
+    }
+    if (!name || name === "." || name === "..") {
+        return "name is empty or refers to a directory";
+    }
+    if (name.indexOf("\0") >= 0) {
+        return "name contains a NUL byte";
+    }
+    if (name.indexOf("/") >= 0 || (target !== "posix" && name.indexOf("\\") >= 0)) {
+        return "name contains a separator";
+    }
+    if (target !== "posix") {
+        if (win32ForbiddenCharRe.test(name)) {
+            return "name contains characters reserved by win32";
+        }
+        if (win32ReservedNameRe.test(name)) {
+            return "name is a win32 device name";
+        }
+        if (win32TrailingRe.test(name)) {
+            return "name ends with a dot or a space";
+        }
+    }
+    if (!fitsLength(name, target)) {
+        return target === "win32"
+            ? "name is longer than " + win32MaxUnits + " characters"
+            : "name is longer than " + posixMaxBytes + " bytes";
+    }
+    return undefined;
+}
+
+// Tells whether the name can be used as is on the target, the result
+// carries the reason of the rejection
+export function isValidFilename(name: string, options: FilenameOptions, driver: PathDriver): FilenameCheck {
+    const reason = checkFilename(name, options, driver);
+    return reason === undefined ? { valid: true } : { valid: false, reason: reason };
+}
+
+// Turns the name into one isValidFilename() accepts: forbidden characters
+// are replaced, trailing dots and spaces dropped, device names prefixed
+// and overlong names cut keeping the extension.
+export function sanitizeFilename(name: string, options: SanitizeOptions, driver: PathDriver): string {
+    if (typeof(name) !== "string") {
+        throw new InvalidArgumentError("Filename must be a string", "name", name, driver.name);
+    }
+    const target = resolveTarget(options, driver);
+    const replacement = options.replacement || "";
+    const forbidden = forbiddenCharRe(target);
+    if (forbidden.test(replacement) || (target !== "posix" && win32TrailingRe.test(replacement))) {
+        throw new InvalidArgumentError(
+            "Replacement \"" + replacement + "\" is not allowed in names itself",
+            "replacement", replacement, driver.name, "ERR_INVALID_ARG_VALUE"
+        );
+    }
+    const fallback = replacement || "_";
+
+    let result = name.replace(new RegExp(forbidden.source, "g"), replacement);
+    if (target !== "posix") {
+        result = result.replace(/[. ]+$/, "");
+        if (win32ReservedNameRe.test(result)) {
+            result = fallback + result;
+        }
+    }
+
+    if (!fitsLength(result, target)) {
+        // keep the extension when some of the name fits next to it
+        const dot = result.lastIndexOf(".");
+        const ext = dot > 0 ? result.slice(dot) : "";
+        const stem = ext ? truncate(result.slice(0, dot), ext, target) : "";
+        result = stem ? stem + ext : truncate(result, "", target);
+        if (target !== "posix") {
+            result = result.replace(/[. ]+$/, "");
+        }
+    }
+
+    if (!result || result === "." || result === "..") {
+        return fallback;
+    }
+    return result;
+}
@@ -0,0 +1,139 @@
+import { PathDriver } from "./driver";
+import { InvalidArgumentError, InvalidPathError } from "./errors";
+
+// Anything with a href, eg. URL instances from the browser or Node
+export interface UrlLike {
+    readonly href: string;
+}
+
+const fileUrlRe = /^file:(?:\/\/([^\/?#]*))?([^?#]*)(?:\?[^#]*)?(?:#.*)?$/i;
+
+// Characters which are left untouched when encoding path segments, this is
+// the RFC 3986 pchar set without "%" and the characters URL parsers strip
+// or treat specially.
+const unreservedRe = /[A-Za-z0-9\-._~!$&'()*+,;=:@]/;
+
+function encodeSegment(segment: string, driver: PathDriver): string {
+    let result = "";
+    for (const char of segment) {
+        if (unreservedRe.test(char)) {
+            result += char;
+        } else {
+            try {
+                result += encodeURIComponent(char);
+            } catch (e) {
+                // lone surrogates have no UTF-8 encoding
+                throw new InvalidPathError(
+                    "Path segment \"" + segment + "\" is not a well-formed unicode string",
+                    "path", segment, driver.name, "ERR_INVALID_FILE_URL_PATH"
+                );
+            }
+        }
+    }
+    return result;
+}
+
+function decodePath(path: string, driver: PathDriver): string {
+    if (/%2f/i.test(path) || (driver.separator === "\\" && /%5c/i.test(path))) {
+        throw new InvalidPathError(
+            "File URL path must not include encoded separators",
+            "url", path, driver.name, "ERR_INVALID_FILE_URL_PATH"
+        );
+    }
+    try {
+        return decodeURIComponent(path);
+    } catch (e) {
+        throw new InvalidPathError(
+            "File URL path \"" + path + "\" has invalid percent-encoding",
+            "url", path, driver.name, "ERR_INVALID_FILE_URL_PATH"
+        );
+    }
+}
+
+// Converts file URL to the path of the driver. Hosts other than "" and
+// "localhost" are turned into UNC roots on win32 and rejected on posix.
+export function fromFileURL(url: string | UrlLike, driver: PathDriver): string {
+    const href = typeof(url) === "string" ? url : url && url.href;
+    if (typeof(href) !== "string") {
+        throw new InvalidArgumentError("Parameter \"url\" must be a string or URL, not " + typeof url, "url", url, driver.name);
+    }
+    const result = fileUrlRe.exec(href);
+    if (!result) {
+        throw new InvalidPathError("URL \"" + href + "\" is not a file URL", "url", href, driver.name, "ERR_INVALID_URL_SCHEME");
+    }
+    let host = (result[1] || "").toLowerCase();
+    const pathname = result[2] || "/";
+    if (host === "localhost") {
+        host = "";
+    }
+
+    if (driver.name === "win32") {
+        const path = decodePath(pathname, driver).replace(/\//g, "\\");
+        if (host) {
+            // file://server/share/dir -> \\server\share\dir
+            return driver.normalize("\\\\" + decodePath(host, driver) + path);
+        }
+        const drive = /^\\([a-zA-Z]:)(?:\\|$)/.exec(path);
+        if (!drive) {
+            throw new InvalidPathError(
+                "File URL \"" + href + "\" must be absolute and have a drive letter",
+                "url", href, driver.name, "ERR_INVALID_FILE_URL_PATH"
+            );
+        }
+        // file:///C: points to the drive root, not to the drive cwd
+        return driver.normalize(path.length === 3 ? path.slice(1) + "\\" : path.slice(1));
+    }
+
+    if (host) {
+        throw new InvalidPathError(
+            "File URL host \"" + host + "\" is not supported by the " + driver.name + " driver",
+            "url", href, driver.name, "ERR_INVALID_FILE_URL_HOST"
+        );
+    }
+    return driver.normalize(decodePath(pathname, driver));
+}
+
+// Converts the path to file URL, relative paths are resolved against the
+// driver cwd first. The trailing separator is kept.
+export function toFileURL(path: string, driver: PathDriver): string {
+    if (typeof(path) !== "string") {
+        throw new InvalidArgumentError("Parameter \"path\" must be a string, not " + typeof path, "path", path, driver.name);
+    }
+    let resolved = driver.resolve(path);
+    const last = path[path.length - 1];
+    if ((last === driver.separator || last === "/") && resolved[resolved.length - 1] !== driver.separator) {
+        resolved += driver.separator;
+    }
+
+    let host = "";
+    if (driver.name === "win32") {
+        // \\?\C:\dir -> C:\dir and \\?\UNC\server\share -> \\server\share
+        const verbatim = /^\\\\\?\\(?:(UNC)\\|(?=[a-zA-Z]:))/i.exec(resolved);
+        if (verbatim) {
+            resolved = (verbatim[1] ? "\\\\" : "") + resolved.slice(verbatim[0].length);
+        } else if (/^\\\\[?.]\\/.test(resolved)) {
+            throw new InvalidPathError(
+                "Path \"" + path + "\" is in the device namespace and has no file URL",
+                "path", path, driver.name, "ERR_UNSUPPORTED_PATH"
+            );
+        }
+        const unc = /^\\\\([^\\]+)\\(.*)$/.exec(resolved);
+        if (unc) {
+            host = unc[1];
+            resolved = "\\" + unc[2];
+        } else {
+            resolved = "\\" + resolved;
+        }
+        resolved = resolved.replace(/\\/g, "/");
+    } else if (driver.separator !== "/") {
+        resolved = resolved.split(driver.separator).join("/");
+    }
+
+    if (resolved[0] !== "/") {
+        throw new InvalidPathError(
+            "Path \"" + path + "\" can't be resolved to an absolute path",
+            "path", path, driver.name
+        );
+    }
+    return "file://" + encodeSegment(host, driver) + resolved.split("/").map((segment) => encodeSegment(segment, driver)).join("/");
+}
@@ -0,0 +1,333 @@
+import { PathDriver } from "./driver";
+import { InvalidArgumentError } from "./errors";
+
+export interface GlobOptions {
+    // let wildcards match names starting with a dot
+    dot?: boolean;
+    // match case-insensitively
+    nocase?: boolean;
+    // disable {a,b} and {1..3} expansion
+    nobrace?: boolean;
+    // treat a leading "!" as a literal character
+    nonegate?: boolean;
+}
+
+// Named character classes usable inside brackets, eg. [[:alpha:]]
+const classNames: Record<string, string> = {
+    alnum: "a-zA-Z0-9",
+    alpha: "a-zA-Z",
+    blank: " \\t",
+    digit: "0-9",
+    lower: "a-z",
+    punct: "!-\\/:-@\\[-`{-~",
+    space: " \\t\\r\\n\\v\\f",
+    upper: "A-Z",
+    word: "\\w",
+    xdigit: "0-9A-Fa-f"
+};
+
+const rangeRe = /^(-?\d+)\.\.(-?\d+)$|^([a-zA-Z])\.\.([a-zA-Z])$/;
+
+export function escapeRegExp(value: string): string {
+    return value.replace(/[-[\]{}()*+?.,\\^$|#\s\/]/g, "\\$&");
+}
+
+// Largest number of elements a range may have and of patterns the brace
+// sets spanning several segments may expand to, patterns come from users
+// and must not be able to stall the process
+const maxBraceExpansion = 10000;
+
+function tooLarge(pattern: string, driver: PathDriver): InvalidArgumentError {
+    return new InvalidArgumentError(
+        "Pattern \"" + pattern + "\" expands to more than " + maxBraceExpansion + " alternatives",
+        "pattern", pattern, driver.name, "ERR_INVALID_ARG_VALUE"
+    );
+}
+
+// index of the brace closing the set opened at `start`, -1 when the set
+// is not terminated
+function braceEnd(pattern: string, start: number, escapes: boolean): number {
+    let depth = 0;
+    for (let i = start; i < pattern.length; i++) {
+        const c = pattern[i];
+        if (escapes && c === "\\") {
+            i++;
+        } else if (c === "{") {
+            depth++;
+        } else if (c === "}" && --depth === 0) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+// splits the inside of a brace set into alternatives, returns undefined
+// when the set is not an expansion (no top level comma and not a range)
+function braceAlternatives(body: string, escapes: boolean, driver: PathDriver): string[] | undefined {
+    const parts = [];
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i < body.length; i++) {
+        const c = body[i];
+        if (escapes && c === "\\") {
+            i++;
+        } else if (c === "{") {
+            depth++;
+        } else if (c === "}") {
+            depth--;
+        } else if (c === "," && depth === 0) {
+            parts.push(body.slice(start, i));
+            start = i + 1;
+        }
+    }
+    if (parts.length) {
+        parts.push(body.slice(start));
+        return parts;
+    }
+
+    const range = rangeRe.exec(body);
+    if (!range) {
+        return undefined;
+    }
+    const numeric = range[1] !== undefined;
+    const from = numeric ? parseInt(range[1], 10) : range[3].charCodeAt(0);
+    const to = numeric ? parseInt(range[2], 10) : range[4].charCodeAt(0);
+    if (Math.abs(to - from) >= maxBraceExpansion) {
+        throw tooLarge("{" + body + "}", driver);
+    }
+    const step = from <= to ? 1 : -1;
+    const result = [];
+    for (let i = from; i !== to + step; i += step) {
+        result.push(numeric ? String(i) : String.fromCharCode(i));
+    }
+    return result;
+}
+
+// Expands the brace sets which can't be matched by an alternation inside
+// of a single segment: sets with alternatives containing "/" or being "**"
+// and sets starting a segment with an alternative which may leave the
+// segment start to what follows the set. The rest is left to
+// translateSegment().
+function expandBraces(pattern: string, escapes: boolean, driver: PathDriver, result: string[] = []): string[] {
+    for (let i = 0; i < pattern.length; i++) {
+        const c = pattern[i];
+        if (escapes && c === "\\") {
+            i++;
+            continue;
+        }
+        if (c !== "{") {
+            continue;
+        }
+        const end = braceEnd(pattern, i, escapes);
+        if (end < 0) {
+            break;
+        }
+        const alternatives = braceAlternatives(pattern.slice(i + 1, end), escapes, driver);
+        const leading = i === 0 || pattern[i - 1] === "/";
+        if (alternatives && alternatives.some((alternative) => alternative.indexOf("/") >= 0 ||
+            alternative === "**" || (leading && (!alternative || alternative[0] === "{")))) {
+            const prefix = pattern.slice(0, i);
+            const suffix = pattern.slice(end + 1);
+            for (const alternative of alternatives) {
+                expandBraces(prefix + alternative + suffix, escapes, driver, result);
+                if (result.length > maxBraceExpansion) {
+                    throw tooLarge(pattern, driver);
+                }
+            }
+            return result;
+        }
+        if (alternatives) {
+            // matched by an alternation, only the sets inside may need
+            // the expansion
+            i = end;
+        }
+    }
+    result.push(pattern);
+    return result;
+}
+
+// translates bracket expression starting at `start`, returns the regex
+// source and the index of the closing bracket or undefined when the
+// bracket is not terminated
+function translateClass(segment: string, start: number, escapes: boolean): [string, number] | undefined {
+    let i = start + 1;
+    let negate = false;
+    if (segment[i] === "!" || segment[i] === "^") {
+        negate = true;
+        i++;
+    }
+    let body = "";
+    for (let first = true; i < segment.length; i++, first = false) {
+        const c = segment[i];
+        if (c === "]" && !first) {
+            return [negate ? "[^\\/" + body + "]" : "(?!\\/)[" + body + "]", i];
+        }
+        if (c === "[" && segment[i + 1] === ":") {
+            const end = segment.indexOf(":]", i + 2);
+            const name = end < 0 ? undefined : segment.slice(i + 2, end);
+            if (name !== undefined && classNames[name]) {
+                body += classNames[name];
+                i = end + 1;
+                continue;
+            }
+        }
+        if (escapes && c === "\\" && i + 1 < segment.length) {
+            body += escapeRegExp(segment[++i]);
+        } else if (c === "\\" || c === "]" || c === "[" || c === "^") {
+            body += "\\" + c;
+        } else {
+            body += c;
+        }
+    }
+    return undefined;
+}
+
+// translates the part of a segment to the regex source, brace sets become
+// alternations. `leading` tells the part starts the segment, the first
+// character of the name is then kept from matching a dot unless it is
+// matched by a literal one.
+function translateSegment(segment: string, leading: boolean, options: GlobOptions, escapes: boolean,
+    driver: PathDriver): string {
+    const guard = options.dot ? "(?!\\.{1,2}(?:\\/|$))" : "(?!\\.)";
+    let source = "";
+    let guarded = !leading;
+    for (let i = 0; i < segment.length; i++) {
+        const c = segment[i];
+        if (c === "{" && !options.nobrace) {
+            const end = braceEnd(segment, i, escapes);
+            const alternatives = end < 0 ? undefined : braceAlternatives(segment.slice(i + 1, end), escapes, driver);
+            if (alternatives) {
+                // the alternatives decide on the guard themselves only
+                // when some of them may start with a dot
+                const start = !guarded && alternatives.some((alternative) => alternative[0] === "." ||
+                    alternative[0] === "{" || (escapes && alternative.substr(0, 2) === "\\."));
+                if (!guarded && !start) {
+                    source += guard;
+                }
+                guarded = true;
+                source += "(?:" + alternatives.map((alternative) =>
+                    translateSegment(alternative, start, options, escapes, driver)).join("|") + ")";
+                i = end;
+                continue;
+            }
+        }
+
+        const escaped = escapes && c === "\\" && i + 1 < segment.length;
+        if (!guarded) {
+            guarded = true;
+            if ((escaped ? segment[i + 1] : c) !== ".") {
+                source += guard;
+            }
+        }
+        if (escaped) {
+            source += escapeRegExp(segment[++i]);
+        } else if (c === "*") {
+            while (segment[i + 1] === "*") {
+                i++;
+            }
+            source += "[^\\/]*";
+        } else if (c === "?") {
+            source += "[^\\/]";
+        } else if (c === "[") {
+            const translated = translateClass(segment, i, escapes);
+            if (translated) {
+                source += translated[0];
+                i = translated[1];
+            } else {
+                source += "\\[";
+            }
+        } else {
+            source += escapeRegExp(c);
+        }
+    }
+    return source;
+}
+
+// translates the pattern with the brace sets spanning segments expanded
+// to the regex source, separators in the pattern are expected to be
+// already converted to slashes
+function translatePattern(pattern: string, options: GlobOptions, escapes: boolean, driver: PathDriver): string {
+    const segments = pattern.split("/").filter((segment, i, all) => {
+        // "**/**" is the same as "**"
+        return segment !== "**" || all[i - 1] !== "**";
+    });
+    const any = options.dot
+        ? "(?!\\.{1,2}(?:\\/|$))[^\\/]+"
+        : "(?!\\.)[^\\/]+";
+
+    let source = "";
+    let slashed = true;
+    for (let i = 0; i < segments.length; i++) {
+        const segment = segments[i];
+        const last = i === segments.length - 1;
+        if (segment === "**") {
+            if (last) {
+                source += i === 0
+                    ? "(?:" + any + "(?:\\/" + any + ")*)?"
+                    : "(?:\\/" + any + ")*\\/?";
+            } else {
+                source += i === 0
+                    ? "(?:" + any + "\\/)*"
+                    : "(?:\\/" + any + ")*\\/";
+            }
+            slashed = true;
+        } else {
+            source += (slashed ? "" : "\\/") + translateSegment(segment, true, options, escapes, driver);
+            slashed = false;
+        }
+    }
+    return "^" + source + "$";
+}
+
+// Compiled glob pattern. Paths are matched using the separator of the
+// driver the pattern was compiled for, "/" is always accepted as well.
+export class Glob {
+    public readonly pattern: string;
+    public readonly negated: boolean;
+    public readonly regexps: RegExp[];
+    private readonly separator: string;
+
+    public constructor(pattern: string, driver: PathDriver, options: GlobOptions = {}) {
+        if (typeof(pattern) !== "string") {
+            throw new InvalidArgumentError(
+                "Parameter \"pattern\" must be a string, not " + typeof pattern,
+                "pattern", pattern, driver.name
+            );
+        }
+
+        let negated = false;
+        let offset = 0;
+        if (!options.nonegate) {
+            while (pattern[offset] === "!") {
+                negated = !negated;
+                offset++;
+            }
+        }
+
+        this.pattern = pattern;
+        this.negated = negated;
+        this.separator = driver.separator;
+
+        // "\" escapes the next character unless it is the driver separator
+        const escapes = driver.separator !== "\\";
+        let body = pattern.slice(offset);
+        if (driver.separator !== "/") {
+            body = body.split(driver.separator).join("/");
+        }
+        const patterns = options.nobrace ? [body] : expandBraces(body, escapes, driver);
+        const flags = options.nocase ? "i" : "";
+        this.regexps = patterns.map((p) => new RegExp(translatePattern(p, options, escapes, driver), flags));
+    }
+
+    public match(path: string): boolean {
+        if (this.separator !== "/") {
+            path = path.split(this.separator).join("/");
+        }
+        const matched = this.regexps.some((re) => re.test(path));
+        return this.negated ? !matched : matched;
+    }
+}
+
+export function compileGlob(pattern: string, driver: PathDriver, options?: GlobOptions): Glob {
+    return new Glob(pattern, driver, options);
+}
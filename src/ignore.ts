@@ -0,0 +1,200 @@
+import { PathDriver } from "./driver";
+import { posixDriver } from "./driver/posix";
+import { InvalidArgumentError } from "./errors";
+import { Glob } from "./glob";
+
+export interface IgnoreRule {
+    // the line as written without the trailing spaces
+    pattern: string;
+    // "!" re-includes what the rules before excluded
+    negated: boolean;
+    // trailing "/", the rule only matches directories
+    directoryOnly: boolean;
+    // a "/" at the start or in the middle ties the rule to the directory
+    // of the ignore file, other rules match names at any depth
+    anchored: boolean;
+    // directory the rule is evaluated relative to
+    directory: string;
+    // the ignore file and the 1-based line of the rule
+    source?: string;
+    line: number;
+}
+
+export interface IgnoreResult {
+    ignored: boolean;
+    // the rule which decided, undefined when no rule matched
+    rule?: IgnoreRule;
+}
+
+type CompiledRule = {
+    rule: IgnoreRule;
+    glob: Glob;
+};
+
+type RuleSet = {
+    directory: string;
+    rules: CompiledRule[];
+};
+
+// Parses a single line, returns undefined for blank lines and comments
+function parseRule(text: string, line: number, directory: string, source: string | undefined,
+    driver: PathDriver): CompiledRule | undefined {
+    // trailing spaces are dropped unless escaped with "\"
+    let end = text.length;
+    while (end > 0 && text[end - 1] === " " && text[end - 2] !== "\\") {
+        end--;
+    }
+    text = text.slice(0, end);
+    if (!text || text[0] === "#") {
+        return undefined;
+    }
+
+    let pattern = text;
+    const negated = pattern[0] === "!";
+    if (negated) {
+        pattern = pattern.slice(1);
+    }
+    const directoryOnly = pattern[pattern.length - 1] === "/";
+    if (directoryOnly) {
+        pattern = pattern.slice(0, -1);
+    }
+    const anchored = pattern.indexOf("/") >= 0;
+    if (pattern[0] === "/") {
+        pattern = pattern.slice(1);
+    }
+    if (!pattern) {
+        return undefined;
+    }
+    // "dir/**" matches what is inside the directory but not the directory
+    if (pattern.slice(-3) === "/**") {
+        pattern += "/*";
+    }
+
+    // patterns always use "/" and "\" escapes, whatever the driver is
+    const glob = new Glob(pattern, posixDriver, {
+        dot: true,
+        nobrace: true,
+        nonegate: true,
+        nocase: !driver.comparison.caseSensitive
+    });
+    return {
+        rule: {
+            pattern: text,
+            negated: negated,
+            directoryOnly: directoryOnly,
+            anchored: anchored,
+            directory: directory,
+            source: source,
+            line: line
+        },
+        glob: glob
+    };
+}
+
+// Evaluates paths against rule sets loaded from ignore files following the
+// .gitignore semantics: the last matching rule of a file wins, the files
+// of deeper directories take precedence over the ones above them and
+// nothing inside an ignored directory can be re-included.
+export class IgnoreMatcher {
+    private readonly driver: PathDriver;
+    private readonly sets: RuleSet[] = [];
+
+    public constructor(driver: PathDriver) {
+        this.driver = driver;
+    }
+
+    // Adds the rules of an ignore file found in the directory, the content
+    // is the text of the file or its lines
+    public add(directory: string, content: string | string[], source?: string): this {
+        if (typeof(directory) !== "string") {
+            throw new InvalidArgumentError(
+                "Parameter \"directory\" must be a string, not " + typeof directory,
+                "directory", directory, this.driver.name
+            );
+        }
+        directory = this.driver.resolve(directory);
+        const lines = typeof(content) === "string" ? content.split(/\r?\n/) : content;
+
+        let set = this.sets.find((candidate) => candidate.directory === directory);
+        if (!set) {
+            set = { directory: directory, rules: [] };
+            this.sets.push(set);
+            // deepest directories first
+            this.sets.sort((a, b) => b.directory.length - a.directory.length);
+        }
+        for (let i = 0; i < lines.length; i++) {
+            const rule = parseRule(lines[i], i + 1, directory, source, this.driver);
+            if (rule) {
+                set.rules.push(rule);
+            }
+        }
+        return this;
+    }
+
+    // Adds the rules of the ignore file at the path, they apply to the
+    // directory it is in
+    public addFile(path: string, content: string | string[]): this {
+        return this.add(this.driver.dirname(this.driver.resolve(path)), content, path);
+    }
+
+    // Tells whether the path is ignored and which rule decided. Relative
+    // paths are resolved against the driver cwd, directories have to be
+    // flagged since only they match the rules ending with "/".
+    public test(path: string, isDirectory = false): IgnoreResult {
+        if (typeof(path) !== "string") {
+            throw new InvalidArgumentError(
+                "Parameter \"path\" must be a string, not " + typeof path,
+                "path", path, this.driver.name
+            );
+        }
+        path = this.driver.resolve(path);
+
+        // an ignored parent directory hides everything inside it
+        const parents = [];
+        for (let parent = this.driver.dirname(path); ; parent = this.driver.dirname(parent)) {
+            parents.unshift(parent);
+            if (this.driver.dirname(parent) === parent) {
+                break;
+            }
+        }
+        for (const parent of parents) {
+            const result = this.evaluate(parent, true);
+            if (result.ignored) {
+                return result;
+            }
+        }
+        return this.evaluate(path, isDirectory);
+    }
+
+    public ignores(path: string, isDirectory = false): boolean {
+        return this.test(path, isDirectory).ignored;
+    }
+
+    private evaluate(path: string, isDirectory: boolean): IgnoreResult {
+        for (const set of this.sets) {
+            const relative = this.driver.relative(set.directory, path);
+            if (!relative || relative === ".." || relative.slice(0, 3) === ".." + this.driver.separator ||
+                this.driver.isAbsolute(relative)) {
+                // the directory itself or a path outside of it
+                continue;
+            }
+            // git matches against "/" separated paths on every platform
+            const name = this.driver.separator === "/" ? relative : relative.split(this.driver.separator).join("/");
+            const base = name.slice(name.lastIndexOf("/") + 1);
+            for (let i = set.rules.length - 1; i >= 0; i--) {
+                const { rule, glob } = set.rules[i];
+                if (rule.directoryOnly && !isDirectory) {
+                    continue;
+                }
+                if (glob.match(rule.anchored ? name : base)) {
+                    return { ignored: !rule.negated, rule: rule };
+                }
+            }
+        }
+        return { ignored: false };
+    }
+}
+
+export function createIgnoreMatcher(driver: PathDriver): IgnoreMatcher {
+    return new IgnoreMatcher(driver);
+}
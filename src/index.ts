@@ -1,55 +1,509 @@
-
+import { autodetect, runtimeOptions } from "./autodetect";
+import { AbsolutePath, isNormalized, isRelative, NormalizedPath, PosixPath, RelativePath, RelativeResult,
+    UrlPath, Win32Path } from "./branded";
+import { compare, equals } from "./compare";
+import { ConvertOptions, convertPath } from "./convert";
 import { PathDriver } from "./driver";
+import { contract, expand, ExpandOptions } from "./expand";
+import { defaultCompoundExtensions, ExtensionOptions, extnames, ParseOptions, parseCompound, replaceExt, stripExt } from "./extensions";
+import { FilenameCheck, FilenameOptions, isValidFilename, sanitizeFilename, SanitizeOptions } from "./filename";
+import { fromFileURL, toFileURL, UrlLike } from "./fileurl";
+import { compileGlob, Glob, GlobOptions } from "./glob";
+import { createIgnoreMatcher, IgnoreMatcher } from "./ignore";
+import { PosixDriver } from "./driver/posix";
+import { UrlDriver } from "./driver/url";
+import { Win32Driver } from "./driver/win32";
 import { PathInfo } from "./pathinfo";
+import { dedupeList, formatList, parseList, which, WhichOptions, whichSync } from "./pathlist";
+import { PathObject } from "./pathobject";
+import { AsyncRealpathAdapter, realpath, RealpathAdapter, realpathSync } from "./realpath";
+import { commonAncestor, endsWith, fromSegments, PathSegments, segments, startsWith } from "./segments";
+import { isInside, isSafeSegment, safeJoin } from "./safety";
+import { compileTemplate, extract, PathTemplate } from "./template";
+import { createTrie, PathTrie } from "./trie";
+
+export {
+    AbsolutePath, NormalizedPath, PosixAbsolutePath, PosixPath, PosixRelativePath, RelativePath, RelativeResult,
+    ResolvedPath, UrlPath, Win32AbsolutePath, Win32Path, Win32RelativePath
+} from "./branded";
+export { ConvertOptions, MountStyle } from "./convert";
+export { ComparisonPolicy, DriverOptions, NormalizationForm, PathDriver } from "./driver";
+export { InvalidArgumentError, InvalidPathError, PathError } from "./errors";
+export { ExpandOptions } from "./expand";
+export { defaultCompoundExtensions, ExtensionOptions, ParseOptions } from "./extensions";
+export { FilenameCheck, FilenameOptions, FilenameTarget, SanitizeOptions } from "./filename";
+export { UrlLike } from "./fileurl";
+export { Glob, GlobOptions } from "./glob";
+export { IgnoreMatcher, IgnoreResult, IgnoreRule } from "./ignore";
+export { PathInfo } from "./pathinfo";
+export { WhichOptions } from "./pathlist";
+export { PathObject } from "./pathobject";
+export { AsyncRealpathAdapter, LinkStats, RealpathAdapter } from "./realpath";
+export { PathTraversalError } from "./safety";
+export { PathSegments } from "./segments";
+export { PathTemplate, TemplateValues } from "./template";
+export { PathTrie, PathTrieMatch } from "./trie";
+export { VirtualFileSystem, VirtualFileSystemError, VirtualNodeType, VirtualStats } from "./vfs";
+export { PosixDriver, posixDriver } from "./driver/posix";
+export { Win32Driver, win32Driver } from "./driver/win32";
+export { UrlDriver, urlDriver } from "./driver/url";
+
+// P brands the paths the facade hands out with the driver they belong to
+export class Path<P extends string = string> {
+    // own drivers, not the shared posixDriver and win32Driver, seeded with
+    // the runtime cwd and env the way Node's path.posix and path.win32 are
+    public static readonly posix: Path<PosixPath> = new Path(new PosixDriver(runtimeOptions("posix")));
+    public static readonly win32: Path<Win32Path> = new Path(new Win32Driver(runtimeOptions("win32")));
+    public static readonly url: Path<UrlPath> = new Path(new UrlDriver());
+
+    private static instance: Path = new Path(autodetect());
+
+    public static get Driver(): PathDriver {
+        return this.instance.driver;
+    }
+
+    public static set Driver(driver: PathDriver) {
+        const compoundExtensions = this.instance.compoundExtensions;
+        this.instance = new Path(driver);
+        this.instance.compoundExtensions = compoundExtensions;
+    }
+
+    public static get compoundExtensions(): string[] {
+        return this.instance.compoundExtensions;
+    }
+
+    public static set compoundExtensions(value: string[]) {
+        this.instance.compoundExtensions = value;
+    }
 
-export class Path {
-    public static Driver: PathDriver;
+    public static autodetect(): PathDriver {
+        return autodetect();
+    }
 
     public static get separator(): string {
-        return this.Driver.separator;    
+        return this.instance.separator;
     }
 
     public static get delimiter(): string {
-        return this.Driver.delimiter;
+        return this.instance.delimiter;
     }
 
     public static join(...paths: string[]): string {
-        return this.Driver.join(...paths);
+        return this.instance.join(...paths);
     }
 
+    public static normalize(path: AbsolutePath): AbsolutePath & NormalizedPath;
+    public static normalize(path: RelativePath): RelativePath & NormalizedPath;
+    public static normalize(path: string): NormalizedPath;
     public static normalize(path: string): string {
-        return this.Driver.normalize(path);
+        return this.instance.normalize(path);
+    }
+
+    public static isAbsolute(path: string): path is AbsolutePath {
+        return this.instance.isAbsolute(path);
     }
 
-    public static isAbsolute(path: string): boolean {
-        return this.Driver.isAbsolute(path);
+    public static isRelative(path: string): path is RelativePath {
+        return this.instance.isRelative(path);
     }
 
-    public static resolve(from: string, to: string): string {
-        return this.Driver.resolve(from, to);
+    public static isNormalized(path: string): path is NormalizedPath {
+        return this.instance.isNormalized(path);
+    }
+
+    public static resolve(path: AbsolutePath, ...paths: string[]): AbsolutePath & NormalizedPath;
+    public static resolve(...paths: string[]): NormalizedPath;
+    public static resolve(...paths: string[]): string {
+        return this.instance.resolve(...paths);
     }
     
     public static relative(from: string, to: string): string {
-        return this.Driver.relative(from, to); 
+        return this.instance.relative(from, to);
     }
 
     public static dirname(path: string): string {
-        return this.Driver.dirname(path);
+        return this.instance.dirname(path);
     }
 
     public static extname(path: string): string {
-        return this.Driver.extname(path);
+        return this.instance.extname(path);
     }
 
     public static basename(path: string, ext: string): string {
-        return this.Driver.basename(path, ext);
+        return this.instance.basename(path, ext);
     }
 
     public static format(info: PathInfo): string {
-        return this.Driver.format(info);
+        return this.instance.format(info);
+    }
+
+    public static parse(path: string, options?: ParseOptions): PathInfo {
+        return this.instance.parse(path, options);
+    }
+
+    public static extnames(path: string): string[] {
+        return this.instance.extnames(path);
+    }
+
+    public static replaceExt(path: string, ext: string, options?: ExtensionOptions): string {
+        return this.instance.replaceExt(path, ext, options);
+    }
+
+    public static stripExt(path: string, options?: ExtensionOptions): string {
+        return this.instance.stripExt(path, options);
+    }
+
+    public static equals(a: string, b: string): boolean {
+        return this.instance.equals(a, b);
+    }
+
+    public static compare(a: string, b: string): number {
+        return this.instance.compare(a, b);
+    }
+
+    public static segments(path: string): PathSegments {
+        return this.instance.segments(path);
+    }
+
+    public static fromSegments(segments: PathSegments): string {
+        return this.instance.fromSegments(segments);
+    }
+
+    public static commonAncestor(...paths: string[]): string | undefined {
+        return this.instance.commonAncestor(...paths);
+    }
+
+    public static startsWith(path: string, prefix: string): boolean {
+        return this.instance.startsWith(path, prefix);
+    }
+
+    public static endsWith(path: string, suffix: string): boolean {
+        return this.instance.endsWith(path, suffix);
+    }
+
+    public static toNamespacedPath(path: string): string {
+        return this.instance.toNamespacedPath(path);
+    }
+
+    public static from(...paths: string[]): PathObject {
+        return this.instance.from(...paths);
+    }
+
+    public static match(path: string, pattern: string, options?: GlobOptions): boolean {
+        return this.instance.match(path, pattern, options);
+    }
+
+    public static compileGlob(pattern: string, options?: GlobOptions): Glob {
+        return this.instance.compileGlob(pattern, options);
+    }
+
+    public static convert(path: string, to: PathDriver | Path, options?: ConvertOptions): string {
+        return this.instance.convert(path, to, options);
+    }
+
+    public static ignoreMatcher(): IgnoreMatcher {
+        return this.instance.ignoreMatcher();
+    }
+
+    public static isInside(parent: string, child: string): boolean {
+        return this.instance.isInside(parent, child);
+    }
+
+    public static safeJoin(base: string, ...untrusted: string[]): string {
+        return this.instance.safeJoin(base, ...untrusted);
+    }
+
+    public static isSafeSegment(segment: string): boolean {
+        return this.instance.isSafeSegment(segment);
+    }
+
+    public static fromFileURL(url: string | UrlLike): string {
+        return this.instance.fromFileURL(url);
+    }
+
+    public static toFileURL(path: string): string {
+        return this.instance.toFileURL(path);
+    }
+
+    public static realpath(path: string, adapter: AsyncRealpathAdapter): Promise<string> {
+        return this.instance.realpath(path, adapter);
+    }
+
+    public static realpathSync(path: string, adapter: RealpathAdapter): string {
+        return this.instance.realpathSync(path, adapter);
+    }
+
+    public static expand(path: string, options?: ExpandOptions): string {
+        return this.instance.expand(path, options);
+    }
+
+    public static contract(path: string): string {
+        return this.instance.contract(path);
+    }
+
+    public static parseList(list: string): string[] {
+        return this.instance.parseList(list);
+    }
+
+    public static formatList(paths: string[]): string {
+        return this.instance.formatList(paths);
+    }
+
+    public static dedupeList(paths: string[]): string[] {
+        return this.instance.dedupeList(paths);
+    }
+
+    public static which(command: string, exists: (path: string) => Promise<boolean>,
+        options?: WhichOptions): Promise<string | undefined> {
+        return this.instance.which(command, exists, options);
+    }
+
+    public static whichSync(command: string, exists: (path: string) => boolean, options?: WhichOptions): string | undefined {
+        return this.instance.whichSync(command, exists, options);
+    }
+
+    public static sanitizeFilename(name: string, options?: SanitizeOptions): string {
+        return this.instance.sanitizeFilename(name, options);
+    }
+
+    public static isValidFilename(name: string, options?: FilenameOptions): FilenameCheck {
+        return this.instance.isValidFilename(name, options);
+    }
+
+    public static template(pattern: string): PathTemplate {
+        return this.instance.template(pattern);
+    }
+
+    public static extract(pattern: string, path: string): Record<string, string> | undefined {
+        return this.instance.extract(pattern, path);
+    }
+
+    public static trie<T>(): PathTrie<T> {
+        return this.instance.trie<T>();
+    }
+
+    public readonly driver: PathDriver;
+    // compound extensions honored by parse(), replaceExt() and stripExt()
+    // when asked to
+    public compoundExtensions: string[] = defaultCompoundExtensions.slice();
+
+    public constructor(driver: PathDriver) {
+        this.driver = driver;
+    }
+
+    public get separator(): string {
+        return this.driver.separator;
+    }
+
+    public get delimiter(): string {
+        return this.driver.delimiter;
+    }
+
+    public get cwd(): string {
+        return this.driver.cwd;
+    }
+
+    public get env(): Record<string, string> | undefined {
+        return this.driver.env;
+    }
+
+    public join(...paths: string[]): string {
+        return this.driver.join(...paths);
+    }
+
+    public normalize(path: AbsolutePath): P & AbsolutePath & NormalizedPath;
+    public normalize(path: RelativePath): P & RelativePath & NormalizedPath;
+    public normalize(path: string): P & NormalizedPath;
+    public normalize(path: string): string {
+        return this.driver.normalize(path);
+    }
+
+    public isAbsolute(path: string): path is P & AbsolutePath {
+        return this.driver.isAbsolute(path);
+    }
+
+    public isRelative(path: string): path is P & RelativePath {
+        return isRelative(path, this.driver);
+    }
+
+    public isNormalized(path: string): path is P & NormalizedPath {
+        return isNormalized(path, this.driver);
+    }
+
+    // without a cwd the driver leaves relative paths relative, the result
+    // is only known to be absolute when the first path is
+    public resolve(path: AbsolutePath, ...paths: string[]): P & AbsolutePath & NormalizedPath;
+    public resolve(...paths: string[]): P & NormalizedPath;
+    public resolve(...paths: string[]): string {
+        return this.driver.resolve(...paths);
+    }
+
+    public relative(from: string, to: string): RelativeResult<P> {
+        return this.driver.relative(from, to) as RelativeResult<P>;
+    }
+
+    public dirname(path: string): string {
+        return this.driver.dirname(path);
+    }
+
+    public extname(path: string): string {
+        return this.driver.extname(path);
+    }
+
+    public basename(path: string, ext: string): string {
+        return this.driver.basename(path, ext);
+    }
+
+    public format(info: PathInfo): string {
+        return this.driver.format(info);
+    }
+
+    public parse(path: string, options?: ParseOptions): PathInfo {
+        if (!options) {
+            return this.driver.parse(path);
+        }
+        return parseCompound(path, options, this.compoundExtensions, this.driver);
+    }
+
+    public extnames(path: string): string[] {
+        return extnames(path, this.driver);
+    }
+
+    public replaceExt(path: string, ext: string, options: ExtensionOptions = {}): string {
+        return replaceExt(path, ext, options, this.compoundExtensions, this.driver);
+    }
+
+    public stripExt(path: string, options: ExtensionOptions = {}): string {
+        return stripExt(path, options, this.compoundExtensions, this.driver);
+    }
+
+    public equals(a: string, b: string): boolean {
+        return equals(a, b, this.driver);
+    }
+
+    public compare(a: string, b: string): number {
+        return compare(a, b, this.driver);
+    }
+
+    public segments(path: string): PathSegments {
+        return segments(path, this.driver);
+    }
+
+    public fromSegments(segments: PathSegments): string {
+        return fromSegments(segments, this.driver);
+    }
+
+    public commonAncestor(...paths: string[]): string | undefined {
+        return commonAncestor(paths, this.driver);
+    }
+
+    public startsWith(path: string, prefix: string): boolean {
+        return startsWith(path, prefix, this.driver);
+    }
+
+    public endsWith(path: string, suffix: string): boolean {
+        return endsWith(path, suffix, this.driver);
+    }
+
+    public toNamespacedPath(path: string): string {
+        return this.driver.toNamespacedPath(path);
+    }
+
+    public from(...paths: string[]): PathObject {
+        return new PathObject(this.driver.join(...paths), this.driver);
+    }
+
+    public match(path: string, pattern: string, options?: GlobOptions): boolean {
+        return compileGlob(pattern, this.driver, options).match(path);
+    }
+
+    public compileGlob(pattern: string, options?: GlobOptions): Glob {
+        return compileGlob(pattern, this.driver, options);
+    }
+
+    public convert(path: string, to: PathDriver | Path, options?: ConvertOptions): string {
+        const target = to instanceof Path ? to.driver : to;
+        return convertPath(path, this.driver, target, options);
+    }
+
+    public ignoreMatcher(): IgnoreMatcher {
+        return createIgnoreMatcher(this.driver);
+    }
+
+    public isInside(parent: string, child: string): boolean {
+        return isInside(parent, child, this.driver);
+    }
+
+    public safeJoin(base: string, ...untrusted: string[]): string {
+        return safeJoin(base, untrusted, this.driver);
+    }
+
+    public isSafeSegment(segment: string): boolean {
+        return isSafeSegment(segment, this.driver);
+    }
+
+    public fromFileURL(url: string | UrlLike): string {
+        return fromFileURL(url, this.driver);
+    }
+
+    public toFileURL(path: string): string {
+        return toFileURL(path, this.driver);
+    }
+
+    public realpath(path: string, adapter: AsyncRealpathAdapter): Promise<string> {
+        return realpath(path, adapter, this.driver);
+    }
+
+    public realpathSync(path: string, adapter: RealpathAdapter): string {
+        return realpathSync(path, adapter, this.driver);
+    }
+
+    public expand(path: string, options: ExpandOptions = {}): string {
+        return expand(path, options, this.driver);
+    }
+
+    public contract(path: string): string {
+        return contract(path, this.driver);
+    }
+
+    public parseList(list: string): string[] {
+        return parseList(list, this.driver);
+    }
+
+    public formatList(paths: string[]): string {
+        return formatList(paths, this.driver);
+    }
+
+    public dedupeList(paths: string[]): string[] {
+        return dedupeList(paths, this.driver);
+    }
+
+    public which(command: string, exists: (path: string) => Promise<boolean>,
+        options: WhichOptions = {}): Promise<string | undefined> {
+        return which(command, exists, options, this.driver);
+    }
+
+    public whichSync(command: string, exists: (path: string) => boolean, options: WhichOptions = {}): string | undefined {
+        return whichSync(command, exists, options, this.driver);
+    }
+
+    public sanitizeFilename(name: string, options: SanitizeOptions = {}): string {
+        return sanitizeFilename(name, options, this.driver);
+    }
+
+    public isValidFilename(name: string, options: FilenameOptions = {}): FilenameCheck {
+        return isValidFilename(name, options, this.driver);
+    }
+
+    public template(pattern: string): PathTemplate {
+        return compileTemplate(pattern, this.driver);
+    }
+
+    public extract(pattern: string, path: string): Record<string, string> | undefined {
+        return extract(pattern, path, this.driver);
     }
 
-    public static parse(path: string): PathInfo {
-        return this.Driver.parse(path);
+    public trie<T>(): PathTrie<T> {
+        return createTrie<T>(this.driver);
     }
 }
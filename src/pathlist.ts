@@ -0,0 +1,136 @@
+import { comparisonKey } from "./compare";
+import { PathDriver } from "./driver";
+import { InvalidPathError } from "./errors";
+import { getEnv } from "./expand";
+import { fromSegments, normalizedSegments } from "./segments";
+
+export interface WhichOptions {
+    // list searched instead of the PATH variable of the driver env
+    path?: string;
+    // win32 only, extensions tried instead of the PATHEXT variable
+    pathext?: string;
+}
+
+const defaultPathext = ".COM;.EXE;.BAT;.CMD";
+
+// Splits a PATH-style list on the driver delimiter. win32 entries may be
+// double quoted to contain the delimiter and empty entries are dropped the
+// way windows does, elsewhere an empty entry stands for the cwd and comes
+// back as ".".
+export function parseList(list: string, driver: PathDriver): string[] {
+    if (!list) {
+        return [];
+    }
+    if (driver.name !== "win32") {
+        return list.split(driver.delimiter).map((entry) => entry || ".");
+    }
+
+    const result: string[] = [];
+    let entry = "";
+    let quoted = false;
+    for (const char of list) {
+        if (char === "\"") {
+            quoted = !quoted;
+        } else if (char === driver.delimiter && !quoted) {
+            result.push(entry);
+            entry = "";
+        } else {
+            entry += char;
+        }
+    }
+    result.push(entry);
+    return result.filter((item) => !!item);
+}
+
+// Joins the paths with the driver delimiter, win32 entries containing the
+// delimiter are quoted, posix can't represent them at all.
+export function formatList(paths: string[], driver: PathDriver): string {
+    return paths.map((path) => {
+        if (path.indexOf(driver.delimiter) === -1) {
+            return path;
+        }
+        if (driver.name === "win32" && path.indexOf("\"") === -1) {
+            return "\"" + path + "\"";
+        }
+        throw new InvalidPathError(
+            "Path \"" + path + "\" can't be part of a list delimited by \"" + driver.delimiter + "\"",
+            "paths", path, driver.name
+        );
+    }).join(driver.delimiter);
+}
+
+// the form two entries naming the same directory share, trailing
+// separators are not significant
+function entryKey(path: string, driver: PathDriver): string {
+    const normalized = fromSegments(normalizedSegments(path, driver), driver) || ".";
+    return comparisonKey(normalized, driver.comparison);
+}
+
+// Drops the repeated entries keeping the first one, entries are compared
+// normalized under the driver comparison policy
+export function dedupeList(paths: string[], driver: PathDriver): string[] {
+    const seen = new Set<string>();
+    return paths.filter((path) => {
+        const key = entryKey(path, driver);
+        if (seen.has(key)) {
+            return false;
+        }
+        seen.add(key);
+        return true;
+    });
+}
+
+// Paths the command may be found at in the order they are searched, a
+// command containing a separator is not looked up in the list.
+function candidates(command: string, options: WhichOptions, driver: PathDriver): string[] {
+    const win32 = driver.name === "win32";
+    let extensions = [""];
+    if (win32) {
+        const pathext = parseList(options.pathext !== undefined
+            ? options.pathext
+            : getEnv("PATHEXT", driver) || defaultPathext, driver);
+        const ext = driver.extname(command);
+        const known = !!ext && pathext.some((item) => comparisonKey(item, driver.comparison) ===
+            comparisonKey(ext, driver.comparison));
+        extensions = (known ? [""] : []).concat(pathext);
+    }
+
+    const separated = win32 ? /[\\\/]/.test(command) : command.indexOf(driver.separator) !== -1;
+    const directories = separated
+        ? [""]
+        : dedupeList(parseList(options.path !== undefined ? options.path : getEnv("PATH", driver) || "", driver), driver);
+    const result: string[] = [];
+    for (const directory of directories) {
+        let base = directory ? driver.join(directory, command) : command;
+        if (directory && driver.dirname(base) === ".") {
+            // a bare name would be looked up in the PATH again when run
+            base = "." + driver.separator + base;
+        }
+        for (const ext of extensions) {
+            result.push(base + ext);
+        }
+    }
+    return result;
+}
+
+// Finds the first candidate of the command the existence check accepts,
+// returns undefined when there is none
+export function whichSync(command: string, exists: (path: string) => boolean,
+    options: WhichOptions, driver: PathDriver): string | undefined {
+    for (const candidate of candidates(command, options, driver)) {
+        if (exists(candidate)) {
+            return candidate;
+        }
+    }
+    return undefined;
+}
+
+export async function which(command: string, exists: (path: string) => Promise<boolean>,
+    options: WhichOptions, driver: PathDriver): Promise<string | undefined> {
+    for (const candidate of candidates(command, options, driver)) {
+        if (await exists(candidate)) {
+            return candidate;
+        }
+    }
+    return undefined;
+}
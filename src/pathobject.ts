@@ -0,0 +1,117 @@
+import { equals } from "./compare";
+import { PathDriver } from "./driver";
+import { PathInfo } from "./pathinfo";
+import { InvalidPathError } from "./errors";
+
+// Immutable path value bound to the driver it was created with. Every
+// operation returns a new instance, the wrapped string is always in the
+// normalized form of the driver without a trailing separator.
+export class PathObject {
+    public readonly driver: PathDriver;
+    public readonly path: string;
+    private readonly info: PathInfo;
+
+    public constructor(path: string, driver: PathDriver) {
+        const normalized = driver.normalize(path);
+        const root = driver.parse(normalized).root;
+
+        this.driver = driver;
+        this.path = normalized !== root && normalized.endsWith(driver.separator)
+            ? normalized.slice(0, -driver.separator.length)
+            : normalized;
+        this.info = driver.parse(this.path);
+        Object.freeze(this);
+    }
+
+    public get root(): string {
+        return this.info.root || "";
+    }
+
+    public get dir(): string {
+        return this.info.dir || "";
+    }
+
+    public get base(): string {
+        return this.info.base || "";
+    }
+
+    public get name(): string {
+        return this.info.name || "";
+    }
+
+    public get ext(): string {
+        return this.info.ext || "";
+    }
+
+    public get isAbsolute(): boolean {
+        return this.driver.isAbsolute(this.path);
+    }
+
+    public get parent(): PathObject {
+        return this.create(this.driver.dirname(this.path));
+    }
+
+    public join(...paths: Array<string | PathObject>): PathObject {
+        return this.create(this.driver.join(this.path, ...paths.map(String)));
+    }
+
+    public resolve(...paths: Array<string | PathObject>): PathObject {
+        return this.create(this.driver.resolve(this.path, ...paths.map(String)));
+    }
+
+    public relativeTo(from: string | PathObject): PathObject {
+        return this.create(this.driver.relative(String(from), this.path));
+    }
+
+    public withBase(base: string): PathObject {
+        return this.format({ base: base });
+    }
+
+    public withName(name: string): PathObject {
+        return this.format({ base: name + this.ext });
+    }
+
+    public withExt(ext: string): PathObject {
+        if (ext && ext[0] !== ".") {
+            ext = "." + ext;
+        }
+        return this.format({ base: this.name + ext });
+    }
+
+    public equals(other: string | PathObject): boolean {
+        if (other instanceof PathObject && other.driver !== this.driver) {
+            return false;
+        }
+        return equals(this.path, String(other), this.driver);
+    }
+
+    public parse(): PathInfo {
+        return { ...this.info };
+    }
+
+    public toString(): string {
+        return this.path;
+    }
+
+    public toJSON(): string {
+        return this.path;
+    }
+
+    private format(info: PathInfo): PathObject {
+        if (!this.base) {
+            throw new InvalidPathError(
+                "Path \"" + this.path + "\" has no base name to replace",
+                "path", this.path, this.driver.name
+            );
+        }
+        return this.create(this.driver.format({
+            root: this.root,
+            dir: this.dir,
+            ...info
+        }));
+    }
+
+    private create(path: string): PathObject {
+        return new PathObject(path, this.driver);
+    }
+}
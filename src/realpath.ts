@@ -0,0 +1,128 @@
+import { PathDriver } from "./driver";
+import { InvalidPathError } from "./errors";
+import { segments } from "./segments";
+
+export interface LinkStats {
+    isSymbolicLink(): boolean;
+    // win32 junctions, adapters which can't tell them apart from symlinks
+    // may leave it out
+    isJunction?(): boolean;
+}
+
+export interface RealpathAdapter {
+    lstat(path: string): LinkStats;
+    readlink(path: string): string;
+}
+
+export interface AsyncRealpathAdapter {
+    lstat(path: string): Promise<LinkStats>;
+    readlink(path: string): Promise<string>;
+}
+
+type Request = {
+    op: "lstat" | "readlink",
+    path: string,
+};
+
+// Maximum number of symlinks followed while resolving a single path, the
+// same limit Linux uses.
+const maxSymlinks = 40;
+
+// Walks the path component by component yielding the file system requests
+// it needs, the runners below answer them through the adapter. posix
+// resolves ".." physically, after the symlinks before it were followed,
+// win32 collapses it lexically before the file system is touched the same
+// way windows itself does.
+function* walk(path: string, driver: PathDriver): Generator<Request, string, unknown> {
+    const win32 = driver.name === "win32";
+    if (!driver.isAbsolute(path)) {
+        // posix joins the cwd as it is to keep its ".." physical, without a
+        // cwd the path stays relative and is rejected below
+        path = win32 ? driver.resolve(path) : driver.cwd ? driver.cwd + driver.separator + path : path;
+    } else if (win32) {
+        path = driver.resolve(path);
+    }
+    if (!driver.isAbsolute(path)) {
+        throw new InvalidPathError(
+            "Path \"" + path + "\" can't be resolved to an absolute path",
+            "path", path, driver.name
+        );
+    }
+
+    let { root, parts } = segments(path, driver);
+    let current = root;
+    const pending = parts.reverse();
+    let links = 0;
+
+    while (pending.length) {
+        const part = pending.pop();
+        if (!part || part === ".") {
+            continue;
+        }
+        if (part === "..") {
+            current = driver.dirname(current);
+            continue;
+        }
+
+        const next = current === root ? root + part : current + driver.separator + part;
+        const stats = (yield { op: "lstat", path: next }) as LinkStats;
+        if (!stats.isSymbolicLink() && !(stats.isJunction && stats.isJunction())) {
+            current = next;
+            continue;
+        }
+
+        if (++links > maxSymlinks) {
+            throw new InvalidPathError(
+                "Too many symbolic links encountered while resolving \"" + path + "\"",
+                "path", path, driver.name, "ELOOP"
+            );
+        }
+
+        let target = (yield { op: "readlink", path: next }) as string;
+        let resolved: string;
+        if (win32) {
+            // junctions are stored with the NT object namespace prefix
+            target = target.replace(/^\\\?\?\\/, "");
+            if (stats.isJunction && stats.isJunction() && !driver.isAbsolute(target)) {
+                throw new InvalidPathError(
+                    "Junction \"" + next + "\" points to the relative path \"" + target + "\"",
+                    "path", next, driver.name
+                );
+            }
+            resolved = driver.resolve(current, target);
+        } else {
+            resolved = driver.isAbsolute(target) ? target : current + driver.separator + target;
+        }
+
+        ({ root, parts } = segments(resolved, driver));
+        current = root;
+        pending.push(...parts.reverse());
+    }
+    return current;
+}
+
+// Resolves the path to its canonical absolute form following every symlink
+// through the adapter, the adapter errors (eg. ENOENT) are passed through.
+export function realpathSync(path: string, adapter: RealpathAdapter, driver: PathDriver): string {
+    const walker = walk(path, driver);
+    let step = walker.next();
+    while (!step.done) {
+        const request = step.value as Request;
+        step = walker.next(request.op === "lstat"
+            ? adapter.lstat(request.path)
+            : adapter.readlink(request.path));
+    }
+    return step.value as string;
+}
+
+export async function realpath(path: string, adapter: AsyncRealpathAdapter, driver: PathDriver): Promise<string> {
+    const walker = walk(path, driver);
+    let step = walker.next();
+    while (!step.done) {
+        const request = step.value as Request;
+        step = walker.next(request.op === "lstat"
+            ? await adapter.lstat(request.path)
+            : await adapter.readlink(request.path));
+    }
+    return step.value as string;
+}
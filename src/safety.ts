@@ -0,0 +1,97 @@
+import { PathDriver } from "./driver";
+import { InvalidArgumentError, PathError } from "./errors";
+import { normalizedSegments, startsWith } from "./segments";
+
+// Device names reserved by win32 regardless of the extensions, eg. "nul.txt"
+// and "nul.tar.gz"
+export const win32ReservedNameRe = /^(?:CON|PRN|AUX|NUL|CONIN\$|CONOUT\$|COM[0-9¹²³]|LPT[0-9¹²³])(?:\..*)?$/i;
+// Characters win32 does not allow in names, ":" also selects alternate
+// data streams ("file:stream") and drive letters
+export const win32ForbiddenCharRe = /[<>:"|?*\x00-\x1f]/;
+// win32 silently strips trailing dots and spaces, so ".. " means ".."
+export const win32TrailingRe = /[. ]$/;
+
+export class PathTraversalError extends PathError {
+    public readonly base: string;
+    public readonly path: string;
+
+    public constructor(base: string, path: string, reason: string, driver?: string) {
+        super(
+            "Path \"" + path + "\" is not allowed inside \"" + base + "\": " + reason,
+            "ERR_PATH_TRAVERSAL", driver
+        );
+        this.name = "PathTraversalError";
+        this.base = base;
+        this.path = path;
+    }
+}
+
+// returns reason why the segment is unsafe or undefined when it is safe
+export function checkSegment(segment: string, driver: PathDriver): string | undefined {
+    if (!segment || segment === "." || segment === "..") {
+        return "segment is empty or refers to a directory";
+    }
+    if (segment.indexOf("\0") >= 0) {
+        return "segment contains a NUL byte";
+    }
+    if (segment.indexOf("/") >= 0 || segment.indexOf(driver.separator) >= 0) {
+        return "segment contains a separator";
+    }
+    if (driver.name === "win32") {
+        if (win32ForbiddenCharRe.test(segment)) {
+            return "segment contains characters reserved by win32";
+        }
+        if (win32ReservedNameRe.test(segment)) {
+            return "segment is a win32 device name";
+        }
+        if (win32TrailingRe.test(segment)) {
+            return "segment ends with a dot or a space";
+        }
+    }
+    return undefined;
+}
+
+export function isSafeSegment(segment: string, driver: PathDriver): boolean {
+    return typeof(segment) === "string" && checkSegment(segment, driver) === undefined;
+}
+
+// Tells whether child resolves to parent or anything below it. Both paths
+// are resolved against the driver cwd first and compared segment by
+// segment, without a cwd relative paths stay relative and whatever climbs
+// above the parent with ".." is outside of it.
+export function isInside(parent: string, child: string, driver: PathDriver): boolean {
+    const from = driver.resolve(parent);
+    const to = driver.resolve(child);
+    if (!startsWith(to, from, driver)) {
+        return false;
+    }
+    const rest = normalizedSegments(to, driver).parts.slice(normalizedSegments(from, driver).parts.length);
+    return rest.indexOf("..") < 0;
+}
+
+// Joins untrusted segments to the base making sure the result stays inside
+// of it. Each segment may contain separators, its components are checked
+// with isSafeSegment() except for "." and ".." which are resolved.
+export function safeJoin(base: string, segments: string[], driver: PathDriver): string {
+    const splitRe = driver.separator === "/" ? /\/+/ : /[\\\/]+/;
+    for (const segment of segments) {
+        if (typeof(segment) !== "string") {
+            throw new InvalidArgumentError("Arguments to path.safeJoin must be strings", "untrusted", segment, driver.name);
+        }
+        for (const part of segment.split(splitRe)) {
+            if (!part || part === "." || part === "..") {
+                continue;
+            }
+            const reason = checkSegment(part, driver);
+            if (reason) {
+                throw new PathTraversalError(base, segment, reason, driver.name);
+            }
+        }
+    }
+
+    const joined = driver.join(base, ...segments);
+    if (!isInside(base, joined, driver)) {
+        throw new PathTraversalError(base, joined, "path escapes the base directory", driver.name);
+    }
+    return joined;
+}
@@ -0,0 +1,100 @@
+import { equalStrings } from "./compare";
+import { PathDriver } from "./driver";
+
+export interface PathSegments {
+    // root as returned by parse(), eg. "/", "C:\", "C:" or "\\server\share\"
+    root: string;
+    // names following the root, empty names (repeated and trailing
+    // separators) are left out
+    parts: string[];
+}
+
+function separatorRe(driver: PathDriver): RegExp {
+    // win32 accepts forward slashes as well
+    return driver.name === "win32" ? /[\\\/]+/ : /\/+/;
+}
+
+// Splits the path into its root and names, "." and ".." are kept as they
+// are, normalize the path first to get rid of them.
+export function segments(path: string, driver: PathDriver): PathSegments {
+    const root = driver.parse(path).root || "";
+    const parts = path.slice(root.length).split(separatorRe(driver)).filter((part) => !!part);
+    return { root: root, parts: parts };
+}
+
+export function fromSegments(segments: PathSegments, driver: PathDriver): string {
+    const root = segments.root || "";
+    const parts = segments.parts || [];
+    // UNC roots may come without the trailing separator, drive-relative
+    // roots ("C:") must stay without it
+    const last = root[root.length - 1];
+    const separator = root && parts.length && last !== driver.separator && last !== "/" && last !== ":"
+        ? driver.separator
+        : "";
+    return root + separator + parts.join(driver.separator);
+}
+
+// normalized segments without the "." a normalized empty path turns into
+export function normalizedSegments(path: string, driver: PathDriver): PathSegments {
+    const result = segments(driver.normalize(path), driver);
+    result.parts = result.parts.filter((part) => part !== ".");
+    return result;
+}
+
+function startsWithParts(parts: string[], prefix: string[], offset: number, driver: PathDriver): boolean {
+    if (offset < 0 || prefix.length + offset > parts.length) {
+        return false;
+    }
+    for (let i = 0; i < prefix.length; i++) {
+        if (!equalStrings(parts[i + offset], prefix[i], driver.comparison)) {
+            return false;
+        }
+    }
+    return true;
+}
+
+// Longest path all the paths are inside of, the paths are resolved against
+// the cwd first. Returns undefined when the roots (eg. drives) differ.
+export function commonAncestor(paths: string[], driver: PathDriver): string | undefined {
+    if (!paths.length) {
+        return undefined;
+    }
+    const first = segments(driver.resolve(paths[0]), driver);
+    let length = first.parts.length;
+    for (let i = 1; i < paths.length; i++) {
+        const other = segments(driver.resolve(paths[i]), driver);
+        if (!equalStrings(first.root, other.root, driver.comparison)) {
+            return undefined;
+        }
+        length = Math.min(length, other.parts.length);
+        for (let j = 0; j < length; j++) {
+            if (!equalStrings(first.parts[j], other.parts[j], driver.comparison)) {
+                length = j;
+                break;
+            }
+        }
+    }
+    return fromSegments({ root: first.root, parts: first.parts.slice(0, length) }, driver) || ".";
+}
+
+// Tells whether the path begins with all the segments of the prefix, both
+// are normalized first so "/app" is not a prefix of "/apple".
+export function startsWith(path: string, prefix: string, driver: PathDriver): boolean {
+    const target = normalizedSegments(path, driver);
+    const head = normalizedSegments(prefix, driver);
+    return equalStrings(target.root, head.root, driver.comparison) &&
+        startsWithParts(target.parts, head.parts, 0, driver);
+}
+
+// Tells whether the path finishes with all the segments of the suffix, a
+// suffix with root must match the whole path.
+export function endsWith(path: string, suffix: string, driver: PathDriver): boolean {
+    const target = normalizedSegments(path, driver);
+    const tail = normalizedSegments(suffix, driver);
+    if (tail.root) {
+        return equalStrings(target.root, tail.root, driver.comparison) &&
+            target.parts.length === tail.parts.length &&
+            startsWithParts(target.parts, tail.parts, 0, driver);
+    }
+    return startsWithParts(target.parts, tail.parts, target.parts.length - tail.parts.length, driver);
+}
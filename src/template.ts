@@ -0,0 +1,242 @@
+import { PathDriver } from "./driver";
+import { InvalidArgumentError } from "./errors";
+import { escapeRegExp } from "./glob";
+import { PathInfo } from "./pathinfo";
+
+export type TemplateValues = Record<string, string | number>;
+
+interface Placeholder {
+    name: string;
+    // the placeholder as written, eg. "[hash:8]"
+    source: string;
+    // keep at most that many characters
+    length?: number;
+    casing?: "upper" | "lower";
+}
+
+type Part = string | Placeholder;
+
+// [name], [name:modifier:...] and {name}, {name:modifier:...}, anything
+// else including glob sets like {a,b} is taken literally
+const placeholderRe = /\[([A-Za-z_][A-Za-z0-9_]*)((?::[^:\]]+)*)\]|\{([A-Za-z_][A-Za-z0-9_]*)((?::[^:}]+)*)\}/g;
+
+const pathInfoFields = ["root", "dir", "base", "name", "ext"];
+
+function parsePattern(pattern: string, driver: PathDriver): Part[] {
+    const parts: Part[] = [];
+    let offset = 0;
+    let match: RegExpExecArray | null;
+    placeholderRe.lastIndex = 0;
+    while ((match = placeholderRe.exec(pattern))) {
+        if (match.index > offset) {
+            parts.push(pattern.slice(offset, match.index));
+        }
+        const placeholder: Placeholder = { name: match[1] || match[3], source: match[0] };
+        const modifiers = match[1] ? match[2] : match[4];
+        for (const modifier of modifiers.split(":").slice(1)) {
+            if (/^[0-9]+$/.test(modifier)) {
+                placeholder.length = parseInt(modifier, 10);
+            } else if (modifier === "upper" || modifier === "lower") {
+                placeholder.casing = modifier;
+            } else {
+                throw new InvalidArgumentError(
+                    "Unknown modifier \"" + modifier + "\" in \"" + match[0] + "\"",
+                    "pattern", pattern, driver.name, "ERR_INVALID_ARG_VALUE"
+                );
+            }
+        }
+        parts.push(placeholder);
+        offset = match.index + match[0].length;
+    }
+    if (offset < pattern.length) {
+        parts.push(pattern.slice(offset));
+    }
+    return parts;
+}
+
+function isSeparator(c: string, driver: PathDriver): boolean {
+    return c === "/" || c === driver.separator;
+}
+
+// Placeholders expanding to nothing take the separator after them along
+// when they start the pattern or follow a separator, so "{dir}/{name}"
+// gives "name" and not "/name" for a path without a directory.
+function swallows(parts: Part[], i: number, driver: PathDriver): boolean {
+    const previous = parts[i - 1];
+    const next = parts[i + 1];
+    return typeof(next) === "string" && isSeparator(next[0], driver) &&
+        (previous === undefined || (typeof(previous) === "string" && isSeparator(previous[previous.length - 1], driver)));
+}
+
+function literalSource(text: string, driver: PathDriver): string {
+    let source = "";
+    for (const c of text) {
+        source += !isSeparator(c, driver) ? escapeRegExp(c) : driver.separator === "/" ? "\\/" : "[\\\\\\/]";
+    }
+    return source;
+}
+
+// regex source matching what the placeholder expands to, names and user
+// values stay inside a single segment
+function captureSource(placeholder: Placeholder, driver: PathDriver, required: boolean): string {
+    const separators = driver.separator === "/" ? "\\/" : "\\\\\\/";
+    if (placeholder.length !== undefined) {
+        return "([^" + separators + "]{" + (required ? 1 : 0) + "," + placeholder.length + "})";
+    }
+    switch (placeholder.name) {
+    case "root":
+    case "dir":
+        return "([\\s\\S]" + (required ? "+" : "*") + "?)";
+    case "ext":
+        return "(\\.[^." + separators + "]*" + (required ? "" : "|") + ")";
+    default:
+        return "([^" + separators + "]" + (required ? "+" : "*") + "?)";
+    }
+}
+
+// Compiled path template, placeholders are filled from the PathInfo fields
+// of a path ([root], [dir], [base], [name], [ext]) and from user values.
+// Modifiers follow the name: a number keeps at most that many characters
+// ([hash:8]), "upper" and "lower" change the case.
+export class PathTemplate {
+    public readonly pattern: string;
+    // names of the placeholders in the order they appear
+    public readonly placeholders: string[];
+    private readonly parts: Part[];
+    private readonly driver: PathDriver;
+    // built on the first extract()
+    private regexp: RegExp | undefined;
+    private readonly groups: Record<string, number> = {};
+
+    public constructor(pattern: string, driver: PathDriver) {
+        if (typeof(pattern) !== "string") {
+            throw new InvalidArgumentError(
+                "Parameter \"pattern\" must be a string, not " + typeof pattern,
+                "pattern", pattern, driver.name
+            );
+        }
+        this.pattern = pattern;
+        this.driver = driver;
+        this.parts = parsePattern(pattern, driver);
+        this.placeholders = [];
+        for (const part of this.parts) {
+            if (typeof(part) !== "string" && this.placeholders.indexOf(part.name) < 0) {
+                this.placeholders.push(part.name);
+            }
+        }
+    }
+
+    // Builds the path, the path (or its parse() result) provides the
+    // PathInfo fields and the values everything else, values take
+    // precedence over the fields.
+    public fill(path: string | PathInfo, values: TemplateValues = {}): string {
+        const info: PathInfo = typeof(path) === "string" ? this.driver.parse(path) : path || {};
+        let result = "";
+        let skipSeparator = false;
+        for (let i = 0; i < this.parts.length; i++) {
+            const part = this.parts[i];
+            if (typeof(part) === "string") {
+                result += skipSeparator ? part.slice(1) : part;
+                skipSeparator = false;
+                continue;
+            }
+
+            let value: string | number | undefined = Object.prototype.hasOwnProperty.call(values, part.name)
+                ? values[part.name]
+                : pathInfoFields.indexOf(part.name) >= 0 ? info[part.name as keyof PathInfo] : undefined;
+            if (value === undefined || value === null) {
+                throw new InvalidArgumentError(
+                    "Template \"" + this.pattern + "\" has no value for \"" + part.source + "\"",
+                    "values", values, this.driver.name, "ERR_UNDEFINED_REFERENCE"
+                );
+            }
+            value = String(value);
+            if (part.length !== undefined) {
+                value = value.slice(0, part.length);
+            }
+            if (part.casing === "upper") {
+                value = value.toUpperCase();
+            } else if (part.casing === "lower") {
+                value = value.toLowerCase();
+            }
+            result += value;
+            // a value ending with a separator, eg. the root "/" as the dir,
+            // takes the place of the separator following it
+            const next = this.parts[i + 1];
+            skipSeparator = value
+                ? typeof(next) === "string" && isSeparator(next[0], this.driver) &&
+                    isSeparator(value[value.length - 1], this.driver)
+                : swallows(this.parts, i, this.driver);
+        }
+        return result;
+    }
+
+    // Reverse of fill(), gives the values of the placeholders as they appear
+    // in the path or undefined when the path does not match the pattern.
+    // Literals are matched under the comparison policy of the driver.
+    public extract(path: string): Record<string, string> | undefined {
+        if (typeof(path) !== "string") {
+            throw new InvalidArgumentError(
+                "Parameter \"path\" must be a string, not " + typeof path,
+                "path", path, this.driver.name
+            );
+        }
+        const match = this.compile().exec(path);
+        if (!match) {
+            return undefined;
+        }
+        const result: Record<string, string> = {};
+        for (const name of this.placeholders) {
+            result[name] = match[this.groups[name]] || "";
+        }
+        return result;
+    }
+
+    private compile(): RegExp {
+        if (this.regexp) {
+            return this.regexp;
+        }
+        // group of the first occurrence of every placeholder as written
+        const sources: Record<string, number> = {};
+        let source = "";
+        let skipSeparator = false;
+        let group = 1;
+        for (let i = 0; i < this.parts.length; i++) {
+            const part = this.parts[i];
+            if (typeof(part) === "string") {
+                source += literalSource(skipSeparator ? part.slice(1) : part, this.driver);
+                skipSeparator = false;
+                continue;
+            }
+
+            // repeated placeholders must expand to the same value
+            const repeated = Object.prototype.hasOwnProperty.call(sources, part.source);
+            if (swallows(this.parts, i, this.driver)) {
+                const separator = literalSource((this.parts[i + 1] as string)[0], this.driver);
+                const body = repeated ? "(\\" + sources[part.source] + ")" : captureSource(part, this.driver, true);
+                source += "(?:" + body + separator + ")?";
+                skipSeparator = true;
+            } else {
+                source += repeated ? "(\\" + sources[part.source] + ")" : captureSource(part, this.driver, false);
+            }
+            if (!repeated) {
+                sources[part.source] = group;
+            }
+            if (!Object.prototype.hasOwnProperty.call(this.groups, part.name)) {
+                this.groups[part.name] = group;
+            }
+            group++;
+        }
+        const flags = this.driver.comparison && !this.driver.comparison.caseSensitive ? "i" : "";
+        this.regexp = new RegExp("^" + source + "$", flags);
+        return this.regexp;
+    }
+}
+
+export function compileTemplate(pattern: string, driver: PathDriver): PathTemplate {
+    return new PathTemplate(pattern, driver);
+}
+
+export function extract(pattern: string, path: string, driver: PathDriver): Record<string, string> | undefined {
+    return new PathTemplate(pattern, driver).extract(path);
+}
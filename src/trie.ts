@@ -0,0 +1,190 @@
+import { comparisonKey } from "./compare";
+import { PathDriver } from "./driver";
+import { InvalidArgumentError } from "./errors";
+import { fromSegments, normalizedSegments, PathSegments } from "./segments";
+
+export interface PathTrieMatch<T> {
+    // the key as stored, normalized
+    path: string;
+    value: T;
+    // the segments of the looked up path below the key, joined with the
+    // driver separator
+    rest: string;
+}
+
+type TrieNode<T> = {
+    children: Map<string, TrieNode<T>>;
+    // set on nodes holding a value
+    path?: string;
+    value?: T;
+};
+
+function createNode<T>(): TrieNode<T> {
+    return { children: new Map() };
+}
+
+// Maps paths to values by their segments, so "/app" is a prefix of
+// "/app/main.js" but not of "/apple". Keys are normalized and the segments
+// compared under the comparison policy of the driver, "C:\App" and
+// "c:/app" are the same key on win32. Relative keys are kept relative.
+export class PathTrie<T> {
+    private readonly driver: PathDriver;
+    private readonly root: TrieNode<T> = createNode();
+    private count = 0;
+
+    public constructor(driver: PathDriver) {
+        this.driver = driver;
+    }
+
+    public get size(): number {
+        return this.count;
+    }
+
+    public set(path: string, value: T): this {
+        const split = this.split(path);
+        let node = this.root;
+        for (const key of this.keys(split)) {
+            let child = node.children.get(key);
+            if (!child) {
+                child = createNode();
+                node.children.set(key, child);
+            }
+            node = child;
+        }
+        if (node.path === undefined) {
+            this.count++;
+        }
+        node.path = fromSegments(split, this.driver) || ".";
+        node.value = value;
+        return this;
+    }
+
+    public get(path: string): T | undefined {
+        const node = this.find(path);
+        return node && node.value;
+    }
+
+    public has(path: string): boolean {
+        const node = this.find(path);
+        return !!node && node.path !== undefined;
+    }
+
+    // Removes the value stored for the path, the values below it stay
+    public delete(path: string): boolean {
+        const keys = this.keys(this.split(path));
+        const nodes = [this.root];
+        for (const key of keys) {
+            const child = nodes[nodes.length - 1].children.get(key);
+            if (!child) {
+                return false;
+            }
+            nodes.push(child);
+        }
+        const node = nodes[nodes.length - 1];
+        if (node.path === undefined) {
+            return false;
+        }
+        node.path = undefined;
+        node.value = undefined;
+        this.count--;
+
+        // drop the nodes left without values and children
+        for (let i = nodes.length - 1; i > 0; i--) {
+            if (nodes[i].path !== undefined || nodes[i].children.size) {
+                break;
+            }
+            nodes[i - 1].children.delete(keys[i - 1]);
+        }
+        return true;
+    }
+
+    public clear(): void {
+        this.root.children.clear();
+        this.count = 0;
+    }
+
+    // The deepest key the path is equal to or inside of
+    public longestPrefix(path: string): PathTrieMatch<T> | undefined {
+        const split = this.split(path);
+        const keys = this.keys(split);
+        let node = this.root;
+        let match: TrieNode<T> | undefined;
+        let depth = 0;
+        for (let i = 0; i < keys.length; i++) {
+            const child = node.children.get(keys[i]);
+            if (!child) {
+                break;
+            }
+            node = child;
+            if (node.path !== undefined) {
+                match = node;
+                depth = i + 1;
+            }
+        }
+        if (!match) {
+            return undefined;
+        }
+        return {
+            path: match.path!,
+            value: match.value!,
+            // the first key is the root
+            rest: split.parts.slice(depth - 1).join(this.driver.separator)
+        };
+    }
+
+    // Entries stored at the prefix and below it, every entry when no prefix
+    // is given. Parents come before their children, siblings in the order
+    // they were added.
+    public *entries(prefix?: string): IterableIterator<[string, T]> {
+        const start = prefix === undefined ? this.root : this.find(prefix);
+        if (!start) {
+            return;
+        }
+        const stack = [start];
+        while (stack.length) {
+            const node = stack.pop()!;
+            if (node.path !== undefined) {
+                yield [node.path, node.value!];
+            }
+            const children = Array.from(node.children.values());
+            for (let i = children.length - 1; i >= 0; i--) {
+                stack.push(children[i]);
+            }
+        }
+    }
+
+    public [Symbol.iterator](): IterableIterator<[string, T]> {
+        return this.entries();
+    }
+
+    private split(path: string): PathSegments {
+        if (typeof(path) !== "string") {
+            throw new InvalidArgumentError(
+                "Parameter \"path\" must be a string, not " + typeof path,
+                "path", path, this.driver.name
+            );
+        }
+        return normalizedSegments(path, this.driver);
+    }
+
+    // the root followed by the names, folded under the comparison policy
+    private keys(split: PathSegments): string[] {
+        const policy = this.driver.comparison;
+        return [comparisonKey(split.root, policy)].concat(split.parts.map((part) => comparisonKey(part, policy)));
+    }
+
+    private find(path: string): TrieNode<T> | undefined {
+        let node: TrieNode<T> | undefined = this.root;
+        for (const key of this.keys(this.split(path))) {
+            node = node.children.get(key);
+            if (!node) {
+                return undefined;
+            }
+        }
+        return node;
+    }
+}
+
+export function createTrie<T>(driver: PathDriver): PathTrie<T> {
+    return new PathTrie<T>(driver);
+}
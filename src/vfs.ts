@@ -0,0 +1,299 @@
+import { comparisonKey } from "./compare";
+import { PathDriver } from "./driver";
+import { PosixDriver } from "./driver/posix";
+import { PathError } from "./errors";
+import { segments } from "./segments";
+
+type VirtualFile = {
+    type: "file",
+    data: string,
+    mtime: Date,
+};
+
+type VirtualDirectory = {
+    type: "directory",
+    // keyed by the driver comparison key, the original name is kept
+    entries: Map<string, { name: string, node: VirtualNode }>,
+    mtime: Date,
+};
+
+type VirtualSymlink = {
+    type: "symlink",
+    target: string,
+    mtime: Date,
+};
+
+type VirtualNode = VirtualFile | VirtualDirectory | VirtualSymlink;
+
+export type VirtualNodeType = "file" | "directory" | "symlink";
+
+type Lookup = {
+    node: VirtualNode | undefined,
+    parent: VirtualDirectory | undefined,
+    name: string,
+    path: string,
+};
+
+// Maximum number of symlinks followed during a single lookup, the same
+// limit Linux uses.
+const maxSymlinks = 40;
+
+const messages: Record<string, string> = {
+    EEXIST: "file already exists",
+    EINVAL: "invalid argument",
+    EISDIR: "illegal operation on a directory",
+    ELOOP: "too many symbolic links encountered",
+    ENOENT: "no such file or directory",
+    ENOTDIR: "not a directory",
+    ENOTEMPTY: "directory not empty"
+};
+
+export class VirtualFileSystemError extends PathError {
+    public readonly syscall: string;
+    public readonly path: string;
+
+    public constructor(code: string, syscall: string, path: string, driver?: string) {
+        super(code + ": " + messages[code] + ", " + syscall + " '" + path + "'", code, driver);
+        this.name = "VirtualFileSystemError";
+        this.syscall = syscall;
+        this.path = path;
+    }
+}
+
+export class VirtualStats {
+    public readonly type: VirtualNodeType;
+    public readonly size: number;
+    public readonly mtime: Date;
+
+    public constructor(node: VirtualNode) {
+        this.type = node.type;
+        this.size = node.type === "file" ? node.data.length : node.type === "symlink" ? node.target.length : 0;
+        this.mtime = node.mtime;
+    }
+
+    public isFile(): boolean {
+        return this.type === "file";
+    }
+
+    public isDirectory(): boolean {
+        return this.type === "directory";
+    }
+
+    public isSymbolicLink(): boolean {
+        return this.type === "symlink";
+    }
+}
+
+function createDirectory(): VirtualDirectory {
+    return { type: "directory", entries: new Map(), mtime: new Date() };
+}
+
+// In-memory file system. Paths are resolved with the driver, which the
+// file system takes over: chdir() updates the driver cwd so resolve() and
+// relative() of the driver see the same tree as the file system.
+export class VirtualFileSystem {
+    public readonly driver: PathDriver;
+    private readonly roots = new Map<string, VirtualDirectory>();
+
+    public constructor(driver: PathDriver = new PosixDriver()) {
+        this.driver = driver;
+        if (!driver.cwd) {
+            driver.cwd = driver.name === "win32" ? "C:\\" : "/";
+        }
+    }
+
+    public get cwd(): string {
+        return this.driver.cwd;
+    }
+
+    public chdir(path: string): void {
+        const result = this.lookup(path, true, "chdir");
+        if (!result.node) {
+            throw this.error("ENOENT", "chdir", path);
+        }
+        if (result.node.type !== "directory") {
+            throw this.error("ENOTDIR", "chdir", path);
+        }
+        this.driver.cwd = this.driver.resolve(path);
+    }
+
+    public exists(path: string): boolean {
+        try {
+            return !!this.lookup(path, true, "access").node;
+        } catch (e) {
+            return false;
+        }
+    }
+
+    public mkdir(path: string, options: { recursive?: boolean } = {}): void {
+        if (options.recursive) {
+            const resolved = this.driver.resolve(path);
+            const parent = this.driver.dirname(resolved);
+            if (parent !== resolved && !this.exists(parent)) {
+                this.mkdir(parent, options);
+            }
+            const result = this.lookup(resolved, true, "mkdir");
+            if (result.node && result.node.type === "directory") {
+                return;
+            }
+        }
+        this.create(path, "mkdir", createDirectory());
+    }
+
+    public readFile(path: string): string {
+        const node = this.get(path, true, "open");
+        if (node.type === "directory") {
+            throw this.error("EISDIR", "read", path);
+        }
+        return (node as VirtualFile).data;
+    }
+
+    public writeFile(path: string, data: string): void {
+        const result = this.lookup(path, true, "open");
+        if (!result.node) {
+            this.create(result.path, "open", { type: "file", data: data, mtime: new Date() });
+            return;
+        }
+        if (result.node.type === "directory") {
+            throw this.error("EISDIR", "open", path);
+        }
+        (result.node as VirtualFile).data = data;
+        result.node.mtime = new Date();
+    }
+
+    public readdir(path: string): string[] {
+        const node = this.get(path, true, "scandir");
+        if (node.type !== "directory") {
+            throw this.error("ENOTDIR", "scandir", path);
+        }
+        return Array.from(node.entries.values()).map((entry) => entry.name);
+    }
+
+    public stat(path: string): VirtualStats {
+        return new VirtualStats(this.get(path, true, "stat"));
+    }
+
+    public lstat(path: string): VirtualStats {
+        return new VirtualStats(this.get(path, false, "lstat"));
+    }
+
+    public symlink(target: string, path: string): void {
+        this.create(path, "symlink", { type: "symlink", target: target, mtime: new Date() });
+    }
+
+    public readlink(path: string): string {
+        const node = this.get(path, false, "readlink");
+        if (node.type !== "symlink") {
+            throw this.error("EINVAL", "readlink", path);
+        }
+        return node.target;
+    }
+
+    public unlink(path: string): void {
+        const result = this.lookup(path, false, "unlink");
+        if (!result.node || !result.parent) {
+            throw this.error("ENOENT", "unlink", path);
+        }
+        if (result.node.type === "directory") {
+            throw this.error("EISDIR", "unlink", path);
+        }
+        result.parent.entries.delete(this.key(result.name));
+    }
+
+    public rmdir(path: string): void {
+        const result = this.lookup(path, false, "rmdir");
+        if (!result.node || !result.parent) {
+            throw this.error("ENOENT", "rmdir", path);
+        }
+        if (result.node.type !== "directory") {
+            throw this.error("ENOTDIR", "rmdir", path);
+        }
+        if (result.node.entries.size) {
+            throw this.error("ENOTEMPTY", "rmdir", path);
+        }
+        result.parent.entries.delete(this.key(result.name));
+    }
+
+    private create(path: string, syscall: string, node: VirtualNode): void {
+        const result = this.lookup(path, false, syscall);
+        if (result.node) {
+            throw this.error("EEXIST", syscall, path);
+        }
+        if (!result.parent) {
+            throw this.error("ENOENT", syscall, path);
+        }
+        result.parent.entries.set(this.key(result.name), { name: result.name, node: node });
+        result.parent.mtime = node.mtime;
+    }
+
+    private get(path: string, followLast: boolean, syscall: string): VirtualNode {
+        const result = this.lookup(path, followLast, syscall);
+        if (!result.node) {
+            throw this.error("ENOENT", syscall, path);
+        }
+        return result.node;
+    }
+
+    // walks the tree following symlinks, the last component is followed
+    // only when asked to. Missing last component is not an error, the
+    // result carries its parent so it can be created.
+    private lookup(path: string, followLast: boolean, syscall: string): Lookup {
+        let { root, parts } = segments(this.driver.resolve(path), this.driver);
+        let dir = this.root(root);
+        let current = root;
+        let links = 0;
+
+        for (let i = 0; i < parts.length; i++) {
+            const last = i === parts.length - 1;
+            const entry = dir.entries.get(this.key(parts[i]));
+            const name = entry ? entry.name : parts[i];
+            const node = entry && entry.node;
+            if (!node) {
+                if (last) {
+                    return { node: undefined, parent: dir, name: name, path: this.driver.join(current, name) };
+                }
+                throw this.error("ENOENT", syscall, path);
+            }
+
+            if (node.type === "symlink" && (!last || followLast)) {
+                if (++links > maxSymlinks) {
+                    throw this.error("ELOOP", syscall, path);
+                }
+                const target = this.driver.resolve(current, node.target, ...parts.slice(i + 1));
+                ({ root, parts } = segments(target, this.driver));
+                dir = this.root(root);
+                current = root;
+                i = -1;
+                continue;
+            }
+
+            if (last) {
+                return { node: node, parent: dir, name: name, path: this.driver.join(current, name) };
+            }
+            if (node.type !== "directory") {
+                throw this.error("ENOTDIR", syscall, path);
+            }
+            dir = node;
+            current = this.driver.join(current, name);
+        }
+        return { node: dir, parent: undefined, name: "", path: root };
+    }
+
+    private root(root: string): VirtualDirectory {
+        const key = this.key(root);
+        let dir = this.roots.get(key);
+        if (!dir) {
+            dir = createDirectory();
+            this.roots.set(key, dir);
+        }
+        return dir;
+    }
+
+    private key(name: string): string {
+        return comparisonKey(name, this.driver.comparison);
+    }
+
+    private error(code: string, syscall: string, path: string): VirtualFileSystemError {
+        return new VirtualFileSystemError(code, syscall, path, this.driver.name);
+    }
+}
@@ -0,0 +1,131 @@
+import { PosixDriver, Win32Driver } from "../src";
+import { autodetect, runtimeOptions } from "../src/autodetect";
+
+describe("autodetect", () => {
+    const global = globalThis as unknown as Record<string, unknown>;
+    const saved = { process: global.process, Deno: global.Deno };
+
+    // replaces the runtime globals, both are removed unless given
+    function stub(globals: { process?: unknown; Deno?: unknown }): void {
+        global.process = globals.process;
+        global.Deno = globals.Deno;
+    }
+
+    function node(platform: string, cwd: string, env: Record<string, string | undefined> = {}): unknown {
+        return { platform: platform, versions: { node: "20.0.0" }, cwd: () => cwd, env: env };
+    }
+
+    function deno(os: string, cwd: () => string, env: () => Record<string, string>): unknown {
+        return { build: { os: os }, cwd: cwd, env: { toObject: env } };
+    }
+
+    function denied(): never {
+        throw new Error("PermissionDenied");
+    }
+
+    // loads the facade anew so its static drivers see the stubbed globals
+    function loadPath(): typeof import("../src").Path {
+        jest.resetModules();
+        return jest.requireActual<typeof import("../src")>("../src").Path;
+    }
+
+    afterEach(() => {
+        global.process = saved.process;
+        global.Deno = saved.Deno;
+    });
+
+    describe("node", () => {
+        it("seeds a posix driver with the process cwd and env", () => {
+            stub({ process: node("linux", "/srv/app", { HOME: "/root", UNSET: undefined }) });
+            const driver = autodetect();
+            expect(driver).toBeInstanceOf(PosixDriver);
+            expect(driver.cwd).toBe("/srv/app");
+            expect(driver.env).toEqual({ HOME: "/root" });
+            expect(runtimeOptions("posix")).toEqual({ cwd: "/srv/app", env: { HOME: "/root" } });
+            expect(runtimeOptions("win32")).toEqual({ cwd: "/srv/app", env: { HOME: "/root" } });
+        });
+
+        it("detects windows and strips the drive for posix", () => {
+            stub({ process: node("win32", "C:\\Users\\me", { USERPROFILE: "C:\\Users\\me" }) });
+            const driver = autodetect();
+            expect(driver).toBeInstanceOf(Win32Driver);
+            expect(driver.cwd).toBe("C:\\Users\\me");
+            expect(runtimeOptions("win32").cwd).toBe("C:\\Users\\me");
+            expect(runtimeOptions("posix")).toEqual({ cwd: "/Users/me", env: { USERPROFILE: "C:\\Users\\me" } });
+            stub({ process: node("win32", "D:\\") });
+            expect(runtimeOptions("posix").cwd).toBe("/");
+        });
+
+        it("ignores a process object which is not node", () => {
+            stub({ process: { env: { A: "a" }, cwd: () => "/x" } });
+            expect(autodetect().cwd).toBe("/");
+            stub({ process: { versions: { node: "20.0.0" } } });
+            expect(autodetect().cwd).toBe("/");
+        });
+    });
+
+    describe("deno", () => {
+        it("seeds a driver with the cwd and env of Deno", () => {
+            stub({ Deno: deno("linux", () => "/home/deno", () => ({ PATH: "/bin" })) });
+            const driver = autodetect();
+            expect(driver).toBeInstanceOf(PosixDriver);
+            expect(driver.cwd).toBe("/home/deno");
+            expect(driver.env).toEqual({ PATH: "/bin" });
+
+            stub({ Deno: deno("windows", () => "C:\\deno", () => ({})) });
+            expect(autodetect()).toBeInstanceOf(Win32Driver);
+            expect(runtimeOptions("posix").cwd).toBe("/deno");
+        });
+
+        it("falls back to an empty cwd and env without permissions", () => {
+            stub({ Deno: deno("linux", denied, denied) });
+            const driver = autodetect();
+            expect(driver.cwd).toBe("");
+            expect(driver.env).toEqual({});
+            expect(runtimeOptions("posix")).toEqual({ cwd: "", env: {} });
+        });
+
+        it("comes after node", () => {
+            stub({ process: node("linux", "/node"), Deno: deno("windows", () => "C:\\deno", () => ({})) });
+            expect(autodetect().cwd).toBe("/node");
+        });
+    });
+
+    describe("browser", () => {
+        it("falls back to posix with / as cwd", () => {
+            stub({});
+            const driver = autodetect();
+            expect(driver).toBeInstanceOf(PosixDriver);
+            expect(driver.cwd).toBe("/");
+            expect(driver.env).toEqual({});
+            expect(runtimeOptions("posix")).toEqual({ cwd: "/", env: {} });
+            expect(runtimeOptions("win32")).toEqual({ cwd: "/", env: {} });
+            stub({ Deno: {} });
+            expect(autodetect().cwd).toBe("/");
+        });
+    });
+
+    describe("Path", () => {
+        it("seeds the namespaces from the runtime", () => {
+            stub({ process: node("win32", "C:\\work", { TEMP: "C:\\tmp" }) });
+            const Path = loadPath();
+            expect(Path.posix.cwd).toBe("/work");
+            expect(Path.posix.driver.env).toEqual({ TEMP: "C:\\tmp" });
+            expect(Path.win32.cwd).toBe("C:\\work");
+            expect(Path.win32.driver.env).toEqual({ TEMP: "C:\\tmp" });
+            expect(Path.url.cwd).toBe("");
+            expect(Path.url.driver.env).toEqual({});
+            expect(Path.Driver.name).toBe("win32");
+        });
+
+        it("seeds the namespaces in a browser", () => {
+            stub({});
+            const Path = loadPath();
+            expect(Path.posix.cwd).toBe("/");
+            expect(Path.win32.cwd).toBe("/");
+            expect(Path.url.cwd).toBe("");
+            expect(Path.Driver.name).toBe("posix");
+            expect(Path.resolve("a")).toBe("/a");
+        });
+    });
+});
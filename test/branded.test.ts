@@ -0,0 +1,94 @@
+import { Path } from "../src";
+import {
+    AbsolutePath, isNormalized, isRelative, NormalizedPath, PosixAbsolutePath, PosixPath, RelativePath, ResolvedPath,
+    Win32Path
+} from "../src/branded";
+import { posix, win32 } from "./harness";
+
+describe("branded paths", () => {
+    it("tells relative paths apart", () => {
+        expect(isRelative("a/b", posix)).toBe(true);
+        expect(isRelative("", posix)).toBe(true);
+        expect(isRelative("/a", posix)).toBe(false);
+        expect(isRelative("C:a", win32)).toBe(true);
+        expect(isRelative("C:\\a", win32)).toBe(false);
+        expect(isRelative("\\\\server\\share", win32)).toBe(false);
+    });
+
+    it("tells normalized paths apart", () => {
+        expect(isNormalized("/a/b", posix)).toBe(true);
+        expect(isNormalized("../a/", posix)).toBe(true);
+        expect(isNormalized("/a/./b", posix)).toBe(false);
+        expect(isNormalized("a//b", posix)).toBe(false);
+        expect(isNormalized("", posix)).toBe(false);
+        expect(isNormalized("C:\\a\\b", win32)).toBe(true);
+        expect(isNormalized("C:/a/b", win32)).toBe(false);
+        expect(isNormalized("C:\\a\\..\\b", win32)).toBe(false);
+    });
+
+    it("keeps the results of resolve and normalize normalized", () => {
+        for (const driver of [posix, win32]) {
+            for (const path of ["a/../b", "./c//d/", "/x/./y", ""]) {
+                expect(isNormalized(driver.normalize(path), driver)).toBe(true);
+                expect(isNormalized(driver.resolve(path), driver)).toBe(true);
+            }
+        }
+    });
+
+    // checked by the compiler, tsc fails when a call marked as an expected
+    // error is accepted
+    describe("overloads", () => {
+        function takeResolved(path: ResolvedPath): string {
+            return path;
+        }
+
+        function takePosixAbsolute(path: PosixAbsolutePath): string {
+            return path;
+        }
+
+        function takeWin32(path: Win32Path): string {
+            return path;
+        }
+
+        it("brands the results of normalize and resolve", () => {
+            const absolute = "/srv/app" as AbsolutePath;
+            const relative = "a/../b" as RelativePath;
+            const resolved: PosixAbsolutePath & NormalizedPath = Path.posix.resolve(absolute, "x");
+            const normalized: PosixPath & RelativePath & NormalizedPath = Path.posix.normalize(relative);
+            expect(takeResolved(resolved)).toBe("/srv/app/x");
+            expect(takePosixAbsolute(Path.posix.normalize(absolute))).toBe("/srv/app");
+            expect(normalized).toBe("b");
+            // @ts-expect-error the normalized relative path is not absolute
+            takeResolved(Path.posix.normalize(relative));
+            // @ts-expect-error resolving from a plain string is not known to give an absolute path
+            takeResolved(Path.posix.resolve("x"));
+            // @ts-expect-error a plain string carries no brand
+            takeResolved("/srv");
+        });
+
+        it("keeps the paths of the drivers apart", () => {
+            const absolute = "C:\\data" as AbsolutePath;
+            expect(takeWin32(Path.win32.normalize(absolute))).toBe("C:\\data");
+            // @ts-expect-error posix paths can't go where win32 ones are expected
+            takeWin32(Path.posix.normalize(absolute));
+            // @ts-expect-error win32 paths can't go where posix ones are expected
+            takePosixAbsolute(Path.win32.resolve(absolute));
+        });
+
+        it("narrows with the guards", () => {
+            const path: string = "/etc";
+            if (Path.posix.isAbsolute(path) && Path.posix.isNormalized(path)) {
+                expect(takePosixAbsolute(path)).toBe("/etc");
+                expect(takeResolved(path)).toBe("/etc");
+            }
+            if (Path.posix.isRelative(path)) {
+                // @ts-expect-error a relative path is not absolute
+                takePosixAbsolute(path);
+            }
+            const relative: PosixPath & RelativePath = Path.posix.relative("/a", "/b");
+            // @ts-expect-error relative() on win32 may give an absolute path
+            const win32Relative: RelativePath = Path.win32.relative("C:\\a", "D:\\b");
+            expect([relative, win32Relative]).toEqual(["../b", "D:\\b"]);
+        });
+    });
+});
@@ -0,0 +1,54 @@
+import { PosixDriver, Win32Driver } from "../src";
+import { compare, compareStrings, comparisonKey, equals, equalStrings, foldCase } from "../src/compare";
+import { posix, win32 } from "./harness";
+
+describe("compare", () => {
+    const nfc = "caf\u00e9";
+    const nfd = "cafe\u0301";
+
+    it("folds the case beyond lowercasing", () => {
+        expect(foldCase("Straße")).toBe("strasse");
+        expect(foldCase("ΟΔΟΣ")).toBe(foldCase("οδος"));
+        expect(foldCase("ﬁle")).toBe("file");
+    });
+
+    it("builds keys under the policy", () => {
+        expect(comparisonKey("STRASSE", { caseSensitive: false })).toBe(comparisonKey("straße", { caseSensitive: false }));
+        expect(comparisonKey(nfd, { caseSensitive: true, normalization: "NFC" })).toBe(nfc);
+        expect(comparisonKey(nfc, { caseSensitive: true, normalization: "NFD" })).toBe(nfd);
+        expect(comparisonKey(nfd, { caseSensitive: true })).toBe(nfd);
+        expect(comparisonKey("Ｆｉｌｅ", { caseSensitive: false, normalization: "NFKC" })).toBe("file");
+        expect(equalStrings(nfc, nfd, { caseSensitive: false })).toBe(false);
+        expect(equalStrings(nfc.toUpperCase(), nfd, { caseSensitive: false, normalization: "NFC" })).toBe(true);
+        expect(compareStrings("B", "a", { caseSensitive: false })).toBe(1);
+        expect(compareStrings("B", "a", { caseSensitive: true })).toBe(-1);
+    });
+
+    it("compares paths segment by segment", () => {
+        expect(equals("/a/./b/", "/a//b", posix)).toBe(true);
+        expect(equals("a/../b", "b", posix)).toBe(true);
+        expect(equals("", ".", posix)).toBe(true);
+        expect(equals("/a", "a", posix)).toBe(false);
+        expect(equals("/A", "/a", posix)).toBe(false);
+        // "-" sorts before "/" by code unit, parents still come first
+        expect(["/a/b", "/a-b", "/a", "/"].sort((a, b) => compare(a, b, posix))).toEqual(["/", "/a", "/a/b", "/a-b"]);
+        expect(compare("/a/b", "/a", posix)).toBe(1);
+    });
+
+    it("applies the case policy of win32", () => {
+        expect(equals("C:\\Straße", "c:/STRASSE/", win32)).toBe(true);
+        expect(equals("\\\\Server\\Share\\x", "//server/share/X", win32)).toBe(true);
+        expect(equals("C:\\a", "D:\\a", win32)).toBe(false);
+        expect(equals("C:a", "C:\\a", win32)).toBe(false);
+        expect(compare("c:\\b", "C:\\A", win32)).toBe(1);
+        expect(equals("C:\\" + nfc, "C:\\" + nfd, win32)).toBe(false);
+    });
+
+    it("applies the normalization form of the driver", () => {
+        const mac = new PosixDriver({ comparison: { caseSensitive: false, normalization: "NFD" } });
+        expect(equals("/Users/" + nfc, "/users/" + nfd.toUpperCase(), mac)).toBe(true);
+        expect(equals("/" + nfc, "/" + nfd, posix)).toBe(false);
+        const normalizing = new Win32Driver({ comparison: { caseSensitive: false, normalization: "NFC" } });
+        expect(equals("C:\\" + nfc, "c:\\" + nfd, normalizing)).toBe(true);
+    });
+});
@@ -0,0 +1,70 @@
+import { UrlDriver } from "../src";
+import { convertPath, ConvertOptions, MountStyle } from "../src/convert";
+import { InvalidPathError } from "../src/errors";
+import { posix, win32 } from "./harness";
+
+describe("convertPath", () => {
+    const styles: [MountStyle, string][] = [["wsl", "/mnt/c"], ["msys", "/c"], ["cygwin", "/cygdrive/c"]];
+
+    it("maps drives to the mount points of each style", () => {
+        for (const [style, root] of styles) {
+            const options = { style };
+            expect(convertPath("C:\\Users\\me", win32, posix, options)).toBe(root + "/Users/me");
+            expect(convertPath("c:/", win32, posix, options)).toBe(root);
+            expect(convertPath(root + "/Users/me", posix, win32, options)).toBe("C:\\Users\\me");
+            expect(convertPath(root, posix, win32, options)).toBe("C:\\");
+            expect(convertPath(root + "/", posix, win32, options)).toBe("C:\\");
+        }
+        expect(convertPath("D:\\x", win32, posix)).toBe("/mnt/d/x");
+    });
+
+    it("rejects posix paths outside the mount root", () => {
+        expect(() => convertPath("/usr/bin", posix, win32)).toThrow(InvalidPathError);
+        expect(() => convertPath("/mnt/cd/x", posix, win32)).toThrow(InvalidPathError);
+        expect(() => convertPath("/mnt/c/x", posix, win32, { style: "cygwin" })).toThrow(InvalidPathError);
+        expect(() => convertPath("/home", posix, win32, { style: "msys" })).toThrow(InvalidPathError);
+    });
+
+    it("converts UNC shares and verbatim paths", () => {
+        expect(convertPath("\\\\server\\share\\dir\\f", win32, posix)).toBe("//server/share/dir/f");
+        expect(convertPath("\\\\server\\share", win32, posix)).toBe("//server/share");
+        expect(convertPath("//server/share/dir/f", posix, win32)).toBe("\\\\server\\share\\dir\\f");
+        expect(convertPath("\\\\?\\C:\\dir", win32, posix)).toBe("/mnt/c/dir");
+        expect(convertPath("\\\\?\\UNC\\server\\share\\x", win32, posix)).toBe("//server/share/x");
+    });
+
+    it("keeps relative paths relative", () => {
+        expect(convertPath("a\\b/c", win32, posix)).toBe("a/b/c");
+        expect(convertPath("a/b", posix, win32)).toBe("a\\b");
+        expect(convertPath("../x", posix, win32)).toBe("..\\x");
+    });
+
+    it("rejects paths the target can't represent", () => {
+        const unconvertible: [string, boolean][] = [
+            ["C:relative", true],
+            ["\\rooted", true],
+            ["\\\\.\\PhysicalDrive0", true],
+            ["\\\\?\\Volume{1}\\x", true],
+            ["/a\\b", false],
+            ["/mnt/c/a:b", false],
+            ["/mnt/c/what?", false],
+            ["/mnt/c/\x01", false]
+        ];
+        for (const [path, fromWin32] of unconvertible) {
+            try {
+                convertPath(path, fromWin32 ? win32 : posix, fromWin32 ? posix : win32);
+                fail("expected " + path + " to be rejected");
+            } catch (e) {
+                expect(e).toBeInstanceOf(InvalidPathError);
+                expect(e.code).toBe("ERR_UNSUPPORTED_PATH");
+            }
+        }
+    });
+
+    it("validates the arguments", () => {
+        expect(convertPath("C:\\x", win32, win32)).toBe("C:\\x");
+        expect(() => convertPath("/x", posix, new UrlDriver())).toThrow(TypeError);
+        expect(() => convertPath(1 as unknown as string, posix, win32)).toThrow(TypeError);
+        expect(() => convertPath("/x", posix, win32, { style: "wsl2" } as unknown as ConvertOptions)).toThrow(TypeError);
+    });
+});
@@ -0,0 +1,14 @@
+import { call, DriverMethod, posix, win32 } from "./harness";
+import { deviations } from "./deviations";
+
+describe("deviations", () => {
+    for (const deviation of deviations) {
+        const driver = deviation.driver === "win32" ? win32 : posix;
+        const title = deviation.driver + "." + deviation.method + "(" +
+            deviation.args.map((arg) => JSON.stringify(arg)).join(", ") + "): " + deviation.reason;
+        it(title, () => {
+            expect(deviation.actual).not.toEqual(deviation.node);
+            expect(call(driver, deviation.method as DriverMethod, deviation.args)).toEqual(deviation.actual);
+        });
+    }
+});
@@ -0,0 +1,56 @@
+// Calls where the drivers intentionally give a different result than Node's
+// path module. The conformance suites check these calls against `actual`
+// and deviations.test.ts makes sure every entry still holds.
+export interface Deviation {
+    driver: "posix" | "win32";
+    method: string;
+    args: unknown[];
+    // what Node returns
+    node: unknown;
+    // what the driver returns
+    actual: unknown;
+    reason: string;
+}
+
+export const deviations: Deviation[] = [
+    {
+        driver: "posix",
+        method: "dirname",
+        args: ["//a"],
+        node: "//",
+        actual: "/",
+        reason: "repeated leading separators name the root like in normalize()"
+    },
+    {
+        driver: "win32",
+        method: "basename",
+        args: ["C:\\FILE.JS", ".js"],
+        node: "FILE.JS",
+        actual: "FILE",
+        reason: "the extension is matched under the comparison policy of the driver"
+    },
+    {
+        driver: "win32",
+        method: "toNamespacedPath",
+        args: ["\\\\?\\foo"],
+        node: "\\\\?\\foo\\",
+        actual: "\\\\?\\foo",
+        reason: "paths already in a namespace are returned untouched"
+    },
+    {
+        driver: "win32",
+        method: "toNamespacedPath",
+        args: ["\\\\?\\c:\\Windows/System"],
+        node: "\\\\?\\c:\\Windows\\System",
+        actual: "\\\\?\\c:\\Windows/System",
+        reason: "paths already in a namespace are returned untouched"
+    },
+    {
+        driver: "win32",
+        method: "parse",
+        args: ["\\\\?\\UNC\\server\\share"],
+        node: { root: "\\\\?\\UNC\\", dir: "\\\\?\\UNC\\server", base: "share", ext: "", name: "share" },
+        actual: { root: "\\\\?\\UNC\\server\\share", dir: "\\\\?\\UNC\\server\\share", base: "", ext: "", name: "" },
+        reason: "namespaced UNC roots include the server and the share"
+    }
+];
@@ -0,0 +1,72 @@
+import { InvalidArgumentError, InvalidPathError, PathError, PathInfo, PosixDriver, UrlDriver } from "../src";
+import { posix, win32 } from "./harness";
+
+describe("errors", () => {
+    const url = new UrlDriver();
+
+    function thrown(fn: () => unknown): PathError {
+        try {
+            fn();
+        } catch (e) {
+            return e;
+        }
+        throw new Error("expected an error to be thrown");
+    }
+
+    it("keeps TypeError as the base class", () => {
+        const argument = new InvalidArgumentError("message", "path", 1);
+        expect(argument).toBeInstanceOf(PathError);
+        expect(argument).toBeInstanceOf(TypeError);
+        expect([argument.name, argument.message, argument.code]).toEqual(["InvalidArgumentError", "message", "ERR_INVALID_ARG_TYPE"]);
+        expect(argument.driver).toBeUndefined();
+        const path = new InvalidPathError("message", "path", "a", "posix");
+        expect(path).toBeInstanceOf(PathError);
+        expect(path).not.toBeInstanceOf(InvalidArgumentError);
+        expect([path.name, path.code, path.driver]).toEqual(["InvalidPathError", "ERR_INVALID_PATH", "posix"]);
+        expect(new PathError("message", "ERR_X").name).toBe("PathError");
+    });
+
+    for (const driver of [posix, win32, url]) {
+        describe(driver.name, () => {
+            it("reports arguments which are not strings", () => {
+                const error = thrown(() => driver.dirname(7 as unknown as string));
+                expect(error).toBeInstanceOf(InvalidArgumentError);
+                expect(error).toMatchObject({
+                    code: "ERR_INVALID_ARG_TYPE", argument: "path", value: 7, driver: driver.name
+                });
+                expect(error.message).toBe("Parameter \"path\" must be a string, not number");
+
+                expect(thrown(() => driver.resolve("a", null as unknown as string))).toMatchObject({
+                    code: "ERR_INVALID_ARG_TYPE", argument: "paths", value: null, driver: driver.name
+                });
+                expect(thrown(() => driver.join("a", {} as unknown as string))).toMatchObject({
+                    argument: "paths", value: {}, driver: driver.name
+                });
+                expect(thrown(() => driver.parse(undefined as unknown as string))).toMatchObject({
+                    argument: "pathString", value: undefined, driver: driver.name
+                });
+            });
+
+            it("reports path objects of a wrong shape", () => {
+                const error = thrown(() => driver.format("a" as unknown as PathInfo));
+                expect(error).toBeInstanceOf(InvalidArgumentError);
+                expect(error).toMatchObject({ code: "ERR_INVALID_ARG_TYPE", argument: "pathObject", value: "a", driver: driver.name });
+                const root = thrown(() => driver.format({ root: 1 } as unknown as PathInfo));
+                expect(root).toMatchObject({ argument: "pathObject.root", value: 1, driver: driver.name });
+            });
+        });
+    }
+
+    it("reports posix relative paths needing a missing cwd", () => {
+        const error = thrown(() => new PosixDriver().relative("a", "/b"));
+        expect(error).toBeInstanceOf(InvalidArgumentError);
+        expect(error).toMatchObject({ code: "ERR_INVALID_ARG_VALUE", argument: "from", value: "a", driver: "posix" });
+    });
+
+    it("reports url paths of another origin", () => {
+        const error = thrown(() => url.join("https://a.com/x", "https://b.com/y"));
+        expect(error).toBeInstanceOf(InvalidPathError);
+        expect(error).toBeInstanceOf(TypeError);
+        expect(error).toMatchObject({ code: "ERR_INVALID_PATH", argument: "paths", value: "https://b.com/y", driver: "url" });
+    });
+});
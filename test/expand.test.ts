@@ -0,0 +1,84 @@
+import { PosixDriver, Win32Driver } from "../src";
+import { InvalidPathError } from "../src/errors";
+import { contract, expand, getEnv, homedir } from "../src/expand";
+
+describe("expand", () => {
+    const posix = new PosixDriver({
+        cwd: "/home/node",
+        env: { HOME: "/home/$FOO", FOO: "foo", EMPTY: "", DIR: "~/x" }
+    });
+    const win32 = new Win32Driver({
+        cwd: "C:\\Users\\node",
+        env: { USERPROFILE: "C:\\Users\\%FOO%", Foo: "foo", PathExt: ".EXE" }
+    });
+
+    describe("posix", () => {
+        it("expands the tilde prefix", () => {
+            expect(expand("~", {}, posix)).toBe("/home/$FOO");
+            expect(expand("~/a", {}, posix)).toBe("/home/$FOO/a");
+            expect(expand("~other/a", {}, posix)).toBe("/home/other/a");
+            expect(expand("~other/a", { users: { other: "/srv/other" } }, posix)).toBe("/srv/other/a");
+            expect(expand("a/~", {}, posix)).toBe("a/~");
+            expect(expand("~a~/b", {}, posix)).toBe("/home/a~/b");
+        });
+
+        it("expands variables after the tilde prefix only", () => {
+            expect(expand("~/$FOO/${FOO}", {}, posix)).toBe("/home/$FOO/foo/foo");
+            expect(expand("$FOO${EMPTY}bar", {}, posix)).toBe("foobar");
+            expect(expand("$DIR/y", {}, posix)).toBe("~/x/y");
+            expect(expand("$MISSING/${MISSING}", {}, posix)).toBe("$MISSING/${MISSING}");
+        });
+
+        it("honors the escape option", () => {
+            expect(expand("\\~/a", {}, posix)).toBe("~/a");
+            expect(expand("\\$FOO/\\\\$FOO", {}, posix)).toBe("$FOO/\\foo");
+            expect(expand("\\~/\\$FOO", { escape: false }, posix)).toBe("\\~/\\foo");
+        });
+
+        it("throws for undefined references in strict mode", () => {
+            expect(() => expand("$MISSING", { strict: true }, posix)).toThrow(InvalidPathError);
+            expect(() => expand("~/${MISSING}", { strict: true }, posix)).toThrow(InvalidPathError);
+            expect(expand("~/$FOO", { strict: true }, posix)).toBe("/home/$FOO/foo");
+            const homeless = new PosixDriver({ cwd: "/", env: {} });
+            expect(expand("~/a", {}, homeless)).toBe("~/a");
+            try {
+                expand("~/a", { strict: true }, homeless);
+                fail("expected an InvalidPathError");
+            } catch (e) {
+                expect(e.code).toBe("ERR_UNDEFINED_REFERENCE");
+                expect(e.value).toBe("~/a");
+            }
+        });
+    });
+
+    describe("win32", () => {
+        it("expands the tilde prefix and variables after it", () => {
+            expect(expand("~\\%FOO%", {}, win32)).toBe("C:\\Users\\%FOO%\\foo");
+            expect(expand("~/a", {}, win32)).toBe("C:\\Users\\%FOO%/a");
+            expect(expand("%foo%\\%MISSING%", {}, win32)).toBe("foo\\%MISSING%");
+        });
+
+        it("honors the escape and strict options", () => {
+            expect(expand("100%%", {}, win32)).toBe("100%");
+            expect(expand("100%%", { escape: false }, win32)).toBe("100%%");
+            expect(() => expand("%MISSING%", { strict: true }, win32)).toThrow(InvalidPathError);
+        });
+    });
+
+    it("reads the env of the driver", () => {
+        expect(getEnv("PATHEXT", win32)).toBe(".EXE");
+        expect(getEnv("foo", posix)).toBeUndefined();
+        expect(getEnv("hasOwnProperty", new PosixDriver({ env: { hasOwnProperty: "x" } }))).toBe("x");
+        expect(homedir(new Win32Driver({ env: { HOMEDRIVE: "D:", HOMEPATH: "\\me" } }))).toBe("D:\\me");
+        expect(homedir(new PosixDriver())).toBeUndefined();
+    });
+
+    it("contracts the home directory", () => {
+        const driver = new PosixDriver({ env: { HOME: "/home/node" } });
+        expect(contract("/home/node", driver)).toBe("~");
+        expect(contract("/home/node/a/b", driver)).toBe("~/a/b");
+        expect(contract("/home/nodejs", driver)).toBe("/home/nodejs");
+        expect(contract("C:\\USERS\\me\\x", new Win32Driver({ env: { USERPROFILE: "C:\\Users\\me" } })))
+            .toBe("~\\x");
+    });
+});
@@ -0,0 +1,73 @@
+import { UrlDriver } from "../src";
+import { compoundExtname, defaultCompoundExtensions, extnames, parseCompound, replaceExt, stripExt } from "../src/extensions";
+import { posix, win32 } from "./harness";
+
+describe("extensions", () => {
+    const compound = defaultCompoundExtensions;
+
+    it("lists every extension of the base name", () => {
+        expect(extnames("/a/archive.tar.gz", posix)).toEqual([".tar", ".gz"]);
+        expect(extnames(".eslintrc.json", posix)).toEqual([".json"]);
+        expect(extnames("..hidden.d.ts", posix)).toEqual([".d", ".ts"]);
+        expect(extnames("file", posix)).toEqual([]);
+        expect(extnames("file.", posix)).toEqual(["."]);
+        expect(extnames("..", posix)).toEqual([]);
+        expect(extnames("C:\\dir.x\\a.b.c", win32)).toEqual([".b", ".c"]);
+    });
+
+    it("finds the longest compound extension", () => {
+        expect(compoundExtname("backup.tar.gz", compound, posix)).toBe(".tar.gz");
+        expect(compoundExtname("index.d.ts", compound, posix)).toBe(".d.ts");
+        expect(compoundExtname("a.b.tar.gz", [".gz", ".tar.gz", ".b.tar.gz"], posix)).toBe(".b.tar.gz");
+        expect(compoundExtname(".tar.gz", compound, posix)).toBe("");
+        expect(compoundExtname("x.TAR.GZ", compound, posix)).toBe("");
+        expect(compoundExtname("x.TAR.GZ", compound, win32)).toBe(".TAR.GZ");
+        expect(compoundExtname("file.gz", compound, posix)).toBe("");
+    });
+
+    it("replaces extensions", () => {
+        expect(replaceExt("/src/a.ts", ".js", {}, compound, posix)).toBe("/src/a.js");
+        expect(replaceExt("/src/a.ts", "js", {}, compound, posix)).toBe("/src/a.js");
+        expect(replaceExt("/src/a", ".js", {}, compound, posix)).toBe("/src/a.js");
+        expect(replaceExt("/src/a.ts/", ".js", {}, compound, posix)).toBe("/src/a.js/");
+        expect(replaceExt("a.tar.gz", ".zip", {}, compound, posix)).toBe("a.tar.zip");
+        expect(replaceExt("a.tar.gz", ".zip", { parts: 2 }, compound, posix)).toBe("a.zip");
+        expect(replaceExt("a.b.c", ".x", { parts: 5 }, compound, posix)).toBe("a.x");
+        expect(replaceExt("a.b", ".x", { parts: 0 }, compound, posix)).toBe("a.b.x");
+        expect(replaceExt(".bashrc", ".bak", {}, compound, posix)).toBe(".bashrc.bak");
+        expect(replaceExt("..", ".x", {}, compound, posix)).toBe("..");
+        expect(replaceExt("C:\\dir\\a.txt\\", ".md", {}, compound, win32)).toBe("C:\\dir\\a.md\\");
+    });
+
+    it("replaces compound extensions as a whole", () => {
+        expect(replaceExt("dist/index.d.ts", ".js", { compound: true }, compound, posix)).toBe("dist/index.js");
+        expect(replaceExt("a.tar.gz", ".zip", { compound: true }, compound, posix)).toBe("a.zip");
+        expect(replaceExt("a.b.gz", ".zip", { compound: true }, compound, posix)).toBe("a.b.zip");
+        expect(replaceExt("a.b.c", ".x", { compound: true, parts: 2 }, compound, posix)).toBe("a.x");
+        expect(stripExt("jquery.min.js", { compound: true }, compound, posix)).toBe("jquery");
+        expect(stripExt("jquery.min.js", {}, compound, posix)).toBe("jquery.min");
+        expect(stripExt("C:\\Logs\\Old.TAR.XZ", { compound: true }, compound, win32)).toBe("C:\\Logs\\Old");
+    });
+
+    it("parses with compound extensions", () => {
+        expect(parseCompound("/a/b.test.ts", { compound: true }, compound, posix)).toEqual({
+            root: "/", dir: "/a", base: "b.test.ts", ext: ".test.ts", name: "b"
+        });
+        expect(parseCompound("/a/b.test.ts", {}, compound, posix).ext).toBe(".ts");
+        expect(parseCompound("/a/.d.ts", { compound: true }, compound, posix).name).toBe(".d");
+    });
+
+    it("keeps the query and fragment of urls", () => {
+        const url = new UrlDriver();
+        expect(replaceExt("/a/b.js?x=1", ".ts", {}, compound, url)).toBe("/a/b.ts?x=1");
+        expect(replaceExt("/a/b.js#frag", ".ts", {}, compound, url)).toBe("/a/b.ts#frag");
+        expect(replaceExt("https://host.com/a/b.js?q=a.b#c.d", "ts", {}, compound, url)).toBe("https://host.com/a/b.ts?q=a.b#c.d");
+        expect(replaceExt("/a/b/?q", ".ts", {}, compound, url)).toBe("/a/b.ts/?q");
+        expect(replaceExt("https://host.com?q", ".ts", {}, compound, url)).toBe("https://host.com?q");
+        expect(stripExt("/a/b.tar.gz?v", { compound: true }, compound, url)).toBe("/a/b?v");
+        expect(stripExt("/a/b.tar.gz#f", {}, compound, url)).toBe("/a/b.tar#f");
+        expect(extnames("/a/b.tar.gz?x.y", url)).toEqual([".tar", ".gz"]);
+        expect(compoundExtname("/a/b.d.ts#x.min.js", compound, url)).toBe(".d.ts");
+        expect(parseCompound("/a/b.tar.gz?v", { compound: true }, compound, url).name).toBe("b");
+    });
+});
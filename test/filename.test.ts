@@ -0,0 +1,86 @@
+import { PathDriver } from "../src";
+import { FilenameOptions, isValidFilename, sanitizeFilename } from "../src/filename";
+import { posix, win32 } from "./harness";
+
+describe("filename", () => {
+    function reason(name: string, options: FilenameOptions = {}, driver: PathDriver = posix): string | undefined {
+        return isValidFilename(name, options, driver).reason;
+    }
+
+    it("accepts plain names", () => {
+        expect(isValidFilename("report.pdf", {}, posix)).toEqual({ valid: true });
+        expect(isValidFilename("report.pdf", {}, win32)).toEqual({ valid: true });
+        expect(isValidFilename("a:b?", {}, posix)).toEqual({ valid: true });
+        expect(isValidFilename("a\\b", {}, posix)).toEqual({ valid: true });
+    });
+
+    it("rejects names referring to directories or containing separators", () => {
+        expect(reason("")).toBe("name is empty or refers to a directory");
+        expect(reason("..")).toBe("name is empty or refers to a directory");
+        expect(reason("a/b")).toBe("name contains a separator");
+        expect(reason("a\\b", { target: "portable" })).toBe("name contains a separator");
+        expect(reason("a\0b")).toBe("name contains a NUL byte");
+        expect(reason(1 as unknown as string)).toBe("name is not a string");
+    });
+
+    it("rejects what win32 reserves", () => {
+        expect(reason("a:b", {}, win32)).toBe("name contains characters reserved by win32");
+        expect(reason("a\x1fb", {}, win32)).toBe("name contains characters reserved by win32");
+        for (const name of ["CON", "nul.txt", "Com1.tar.gz", "LPT9", "COM0", "COM¹", "conin$"]) {
+            expect(reason(name, {}, win32)).toBe("name is a win32 device name");
+        }
+        expect(reason("console", {}, win32)).toBeUndefined();
+        expect(reason("COM10", {}, win32)).toBeUndefined();
+        expect(reason("name.", {}, win32)).toBe("name ends with a dot or a space");
+        expect(reason("aux ", {}, win32)).toBe("name ends with a dot or a space");
+        expect(reason("name ", { target: "portable" })).toBe("name ends with a dot or a space");
+        expect(reason("CON", { target: "posix" }, win32)).toBeUndefined();
+    });
+
+    it("measures posix names in bytes and win32 ones in code units", () => {
+        const ascii = "a".repeat(255);
+        const polish = "ł".repeat(128);
+        const emoji = "😀".repeat(128);
+        expect(reason(ascii)).toBeUndefined();
+        expect(reason(ascii + "a")).toBe("name is longer than 255 bytes");
+        expect(reason(polish)).toBe("name is longer than 255 bytes");
+        expect(reason(polish, {}, win32)).toBeUndefined();
+        expect(reason(emoji)).toBe("name is longer than 255 bytes");
+        expect(reason(emoji, {}, win32)).toBe("name is longer than 255 characters");
+        expect(reason(polish, { target: "portable" }, win32)).toBe("name is longer than 255 bytes");
+        expect(() => isValidFilename("a", { target: "dos" } as unknown as FilenameOptions, posix)).toThrow(TypeError);
+    });
+
+    describe("sanitizeFilename", () => {
+        it("replaces forbidden characters", () => {
+            expect(sanitizeFilename("a/b\0c", {}, posix)).toBe("abc");
+            expect(sanitizeFilename("a/b", { replacement: "-" }, posix)).toBe("a-b");
+            expect(sanitizeFilename("what?:<now>", { replacement: "_" }, win32)).toBe("what___now_");
+            expect(sanitizeFilename("a\\b", { target: "portable" }, posix)).toBe("ab");
+            expect(() => sanitizeFilename("a", { replacement: "/" }, posix)).toThrow(TypeError);
+            expect(() => sanitizeFilename("a", { replacement: "." }, win32)).toThrow(TypeError);
+        });
+
+        it("fixes names win32 reserves", () => {
+            expect(sanitizeFilename("CON", {}, win32)).toBe("_CON");
+            expect(sanitizeFilename("nul.txt", { replacement: "-" }, win32)).toBe("-nul.txt");
+            expect(sanitizeFilename("name. . ", {}, win32)).toBe("name");
+            expect(sanitizeFilename("...", {}, win32)).toBe("_");
+            expect(sanitizeFilename("..", {}, posix)).toBe("_");
+            expect(sanitizeFilename("CON", {}, posix)).toBe("CON");
+        });
+
+        it("cuts overlong names keeping the extension", () => {
+            const long = "a".repeat(300) + ".txt";
+            expect(sanitizeFilename(long, {}, posix)).toBe("a".repeat(251) + ".txt");
+            expect(sanitizeFilename("ł".repeat(200) + ".md", {}, posix)).toBe("ł".repeat(126) + ".md");
+            expect(sanitizeFilename("ł".repeat(200) + ".md", {}, win32)).toBe("ł".repeat(200) + ".md");
+            expect(sanitizeFilename("😀".repeat(200), {}, win32)).toBe("😀".repeat(127));
+            expect(sanitizeFilename("x." + "e".repeat(300), {}, posix)).toBe("x." + "e".repeat(253));
+            for (const name of [long, "ł".repeat(300), "😀".repeat(300) + ".js"]) {
+                expect(isValidFilename(sanitizeFilename(name, { target: "portable" }, posix), { target: "portable" }, posix))
+                    .toEqual({ valid: true });
+            }
+        });
+    });
+});
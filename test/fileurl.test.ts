@@ -0,0 +1,86 @@
+import { InvalidPathError } from "../src/errors";
+import { fromFileURL, toFileURL } from "../src/fileurl";
+import { posix, win32 } from "./harness";
+
+describe("file URLs", () => {
+    describe("posix", () => {
+        it("percent-encodes what is not a path character", () => {
+            expect(toFileURL("/a b/c#d?e%f", posix)).toBe("file:///a%20b/c%23d%3Fe%25f");
+            expect(toFileURL("/zażółć/😀", posix)).toBe("file:///za%C5%BC%C3%B3%C5%82%C4%87/%F0%9F%98%80");
+            expect(toFileURL("/a\\b", posix)).toBe("file:///a%5Cb");
+            expect(toFileURL("/keep:@$&+,;=~", posix)).toBe("file:///keep:@$&+,;=~");
+            expect(toFileURL("dir/", posix)).toBe("file:///home/node/dir/");
+        });
+
+        it("decodes file URLs", () => {
+            expect(fromFileURL("file:///a%20b/c%23d", posix)).toBe("/a b/c#d");
+            expect(fromFileURL("file://localhost/etc/hosts?x#y", posix)).toBe("/etc/hosts");
+            expect(fromFileURL("FILE:///a/./b/../c", posix)).toBe("/a/c");
+            expect(fromFileURL({ href: "file:///a%5Cb" }, posix)).toBe("/a\\b");
+        });
+
+        it("round-trips with normalize", () => {
+            for (const path of ["/", "/a b/c", "/a/../b//c/", "/%41", "/😀/ł", "/a\\b", "/x#y?z"]) {
+                expect(fromFileURL(toFileURL(path, posix), posix)).toBe(posix.normalize(path));
+            }
+        });
+
+        it("rejects hosts, encoded separators and malformed input", () => {
+            expect(() => fromFileURL("file://server/share", posix)).toThrow(InvalidPathError);
+            expect(() => fromFileURL("file:///a%2Fb", posix)).toThrow(InvalidPathError);
+            expect(() => fromFileURL("file:///%E0%A4%A", posix)).toThrow(InvalidPathError);
+            expect(() => fromFileURL("http://host/a", posix)).toThrow(InvalidPathError);
+            expect(() => fromFileURL(1 as unknown as string, posix)).toThrow(TypeError);
+        });
+
+        it("rejects lone surrogates", () => {
+            for (const path of ["/\ud800", "/a/\udc00b", "/\ud800/x"]) {
+                try {
+                    toFileURL(path, posix);
+                    fail("expected an InvalidPathError");
+                } catch (e) {
+                    expect(e).toBeInstanceOf(InvalidPathError);
+                    expect(e.code).toBe("ERR_INVALID_FILE_URL_PATH");
+                }
+            }
+        });
+    });
+
+    describe("win32", () => {
+        it("converts drive letters", () => {
+            expect(toFileURL("C:\\a b\\c", win32)).toBe("file:///C:/a%20b/c");
+            expect(toFileURL("C:\\", win32)).toBe("file:///C:/");
+            expect(toFileURL("dir\\", win32)).toBe("file:///C:/Users/node/dir/");
+            expect(fromFileURL("file:///C:/a%20b/c", win32)).toBe("C:\\a b\\c");
+            expect(fromFileURL("file:///c:", win32)).toBe("c:\\");
+            expect(fromFileURL("file:///C:/", win32)).toBe("C:\\");
+            expect(fromFileURL("file://localhost/C:/x", win32)).toBe("C:\\x");
+        });
+
+        it("converts UNC hosts", () => {
+            expect(toFileURL("\\\\server\\share\\a b", win32)).toBe("file://server/share/a%20b");
+            expect(fromFileURL("file://server/share/a%20b", win32)).toBe("\\\\server\\share\\a b");
+            expect(fromFileURL("file://SERVER/share/", win32)).toBe("\\\\server\\share\\");
+        });
+
+        it("unwraps verbatim paths", () => {
+            expect(toFileURL("\\\\?\\C:\\dir\\file", win32)).toBe("file:///C:/dir/file");
+            expect(toFileURL("\\\\?\\UNC\\server\\share\\file", win32)).toBe("file://server/share/file");
+            expect(() => toFileURL("\\\\.\\PhysicalDrive0", win32)).toThrow(InvalidPathError);
+            expect(() => toFileURL("\\\\?\\Volume{1}\\x", win32)).toThrow(InvalidPathError);
+        });
+
+        it("rejects encoded separators and paths without a drive", () => {
+            expect(() => fromFileURL("file:///C:/a%5Cb", win32)).toThrow(InvalidPathError);
+            expect(() => fromFileURL("file:///C:/a%2fb", win32)).toThrow(InvalidPathError);
+            expect(() => fromFileURL("file:///a/b", win32)).toThrow(InvalidPathError);
+            expect(() => toFileURL("C:\\\ud800", win32)).toThrow(InvalidPathError);
+        });
+
+        it("round-trips with normalize", () => {
+            for (const path of ["C:\\", "C:\\a b\\c", "c:/x/../y/", "D:\\😀\\%20", "\\\\server\\share\\dir\\f#1"]) {
+                expect(fromFileURL(toFileURL(path, win32), win32)).toBe(win32.normalize(path));
+            }
+        });
+    });
+});
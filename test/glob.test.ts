@@ -0,0 +1,103 @@
+import { PathDriver } from "../src";
+import { Glob, GlobOptions } from "../src/glob";
+import { posix, win32 } from "./harness";
+
+describe("Glob", () => {
+    function matches(pattern: string, paths: string[], options?: GlobOptions, driver: PathDriver = posix): string[] {
+        const glob = new Glob(pattern, driver, options);
+        return paths.filter((path) => glob.match(path));
+    }
+
+    it("matches wildcards within a segment", () => {
+        expect(matches("*.js", ["a.js", "b.ts", "dir/a.js", ".hidden.js"])).toEqual(["a.js"]);
+        expect(matches("?.md", ["a.md", "ab.md", "/.md"])).toEqual(["a.md"]);
+        expect(matches("src/*/index.ts", ["src/a/index.ts", "src/a/b/index.ts", "src/index.ts"]))
+            .toEqual(["src/a/index.ts"]);
+    });
+
+    it("matches ** across segments", () => {
+        const paths = ["a.js", "src/a.js", "src/x/y/a.js", "src/.cache/a.js", "lib/a.js"];
+        expect(matches("**/*.js", paths)).toEqual(["a.js", "src/a.js", "src/x/y/a.js", "lib/a.js"]);
+        expect(matches("src/**", paths)).toEqual(["src/a.js", "src/x/y/a.js"]);
+        expect(matches("src/**/**/a.js", paths)).toEqual(["src/a.js", "src/x/y/a.js"]);
+    });
+
+    it("matches bracket expressions", () => {
+        expect(matches("[abc].txt", ["a.txt", "d.txt"])).toEqual(["a.txt"]);
+        expect(matches("[!a]*", ["abc", "bcd"])).toEqual(["bcd"]);
+        expect(matches("[[:digit:]][[:upper:]]", ["1A", "A1", "1a"])).toEqual(["1A"]);
+        expect(matches("[]x]", ["]", "x", "y"])).toEqual(["]", "x"]);
+        expect(matches("a[b", ["a[b", "ab"])).toEqual(["a[b"]);
+        expect(matches("a[/]b", ["a/b"])).toEqual([]);
+    });
+
+    it("expands braces", () => {
+        expect(matches("*.{js,ts}", ["a.js", "a.ts", "a.md"])).toEqual(["a.js", "a.ts"]);
+        expect(matches("v{1..3}", ["v0", "v1", "v3", "v4"])).toEqual(["v1", "v3"]);
+        expect(matches("{a..c}{2..1}", ["a2", "c1", "d1"])).toEqual(["a2", "c1"]);
+        expect(matches("{a,{b,c}d}", ["a", "bd", "cd", "b"])).toEqual(["a", "bd", "cd"]);
+        expect(matches("{x}", ["{x}", "x"])).toEqual(["{x}"]);
+        expect(matches("\\{a,b}", ["{a,b}", "a"])).toEqual(["{a,b}"]);
+        expect(matches("{a,b}", ["a", "{a,b}"], { nobrace: true })).toEqual(["{a,b}"]);
+    });
+
+    it("matches brace sets within a segment with one expression", () => {
+        const glob = new Glob("log-{1..9999}.{txt,gz}", posix);
+        expect(glob.regexps.length).toBe(1);
+        expect(glob.match("log-9999.gz")).toBe(true);
+        expect(glob.match("log-10000.gz")).toBe(false);
+        expect(new Glob("{src,lib}/{a,b}/{c,d}", posix).regexps.length).toBe(1);
+        expect(matches("{a,b/c}/d", ["a/d", "b/c/d", "b/d"])).toEqual(["a/d", "b/c/d"]);
+        expect(matches("x/{**,y}/z", ["x/z", "x/a/b/z", "x/y/z"])).toEqual(["x/z", "x/a/b/z", "x/y/z"]);
+    });
+
+    it("keeps dot files out of brace alternatives with wildcards", () => {
+        expect(matches("{.a,*}x", [".ax", "bx", ".bx"])).toEqual([".ax", "bx"]);
+        expect(matches("{,x}.env", [".env", "x.env", "y.env"])).toEqual([".env", "x.env"]);
+        expect(matches("{a,*}", ["a", ".a", "b"], { dot: true })).toEqual(["a", ".a", "b"]);
+        expect(matches("{a,*}", [".", ".."], { dot: true })).toEqual([]);
+    });
+
+    it("limits the size of brace expansions", () => {
+        for (const pattern of ["{1..50000}", "{1..3000000}", "{a,b/c}".repeat(14)]) {
+            try {
+                new Glob(pattern, posix);
+                fail("expected " + pattern + " to be rejected");
+            } catch (e) {
+                expect(e).toBeInstanceOf(TypeError);
+                expect(e.code).toBe("ERR_INVALID_ARG_VALUE");
+            }
+        }
+        expect(new Glob("{1..50000}", posix, { nobrace: true }).match("{1..50000}")).toBe(true);
+    });
+
+    it("negates with a leading !", () => {
+        expect(matches("!*.js", ["a.js", "a.ts"])).toEqual(["a.ts"]);
+        expect(matches("!!*.js", ["a.js", "a.ts"])).toEqual(["a.js"]);
+        expect(new Glob("!*.js", posix).negated).toBe(true);
+        expect(matches("!*.js", ["!a.js", "a.js"], { nonegate: true })).toEqual(["!a.js"]);
+    });
+
+    it("matches dot files only when enabled", () => {
+        const paths = [".env", "a/.git/config", ".", "..", "a/../b"];
+        expect(matches("*", paths)).toEqual([]);
+        expect(matches("*", paths, { dot: true })).toEqual([".env"]);
+        expect(matches("**/config", paths, { dot: true })).toEqual(["a/.git/config"]);
+        expect(matches("**/*", paths, { dot: true })).toEqual([".env", "a/.git/config"]);
+        expect(matches(".*", paths)).toEqual([".env", ".", ".."]);
+    });
+
+    it("honors escapes and nocase on posix", () => {
+        expect(matches("\\*.js", ["*.js", "a.js"])).toEqual(["*.js"]);
+        expect(matches("*.JS", ["a.js", "a.JS"], { nocase: true })).toEqual(["a.js", "a.JS"]);
+        expect(matches("a\\b", ["a\\b", "a/b"])).toEqual([]);
+    });
+
+    it("takes both separators on win32", () => {
+        expect(matches("src\\**\\*.ts", ["src\\a.ts", "src/x/a.ts", "src\\x\\y/a.ts", "lib\\a.ts"], {}, win32))
+            .toEqual(["src\\a.ts", "src/x/a.ts", "src\\x\\y/a.ts"]);
+        expect(matches("src/*.ts", ["src\\a.ts", "src/a.ts"], {}, win32)).toEqual(["src\\a.ts", "src/a.ts"]);
+        expect(matches("a\\{b,c}", ["a\\b", "a/c"], {}, win32)).toEqual(["a\\b", "a/c"]);
+        expect(() => new Glob(1 as unknown as string, win32)).toThrow(TypeError);
+    });
+});
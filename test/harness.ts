@@ -0,0 +1,44 @@
+import { PathDriver, PosixDriver, Win32Driver } from "../src";
+import { Deviation, deviations } from "./deviations";
+
+// Node's tests resolve against process.cwd(), these drivers get a fixed cwd
+// so the expected values can be spelled out
+export const posix = new PosixDriver({ cwd: "/home/node", env: {} });
+export const win32 = new Win32Driver({ cwd: "C:\\Users\\node", env: {} });
+
+export type DriverMethod = "join" | "normalize" | "isAbsolute" | "resolve" | "relative" | "dirname" |
+    "extname" | "basename" | "format" | "parse" | "toNamespacedPath";
+
+// arguments of the call and the result Node gives for them
+export type Case = [unknown[], unknown];
+
+function describeCall(driver: PathDriver, method: DriverMethod, args: unknown[]): string {
+    return driver.name + "." + method + "(" + args.map((arg) => JSON.stringify(arg)).join(", ") + ")";
+}
+
+export function findDeviation(driver: PathDriver, method: DriverMethod, args: unknown[]): Deviation | undefined {
+    const key = JSON.stringify(args);
+    return deviations.find((deviation) => deviation.driver === driver.name &&
+        deviation.method === method && JSON.stringify(deviation.args) === key);
+}
+
+export function call(driver: PathDriver, method: DriverMethod, args: unknown[]): unknown {
+    return (driver[method] as (...args: unknown[]) => unknown).apply(driver, args);
+}
+
+// Checks the driver gives Node's result for every case, the calls listed
+// in the deviations table must give the result recorded there instead.
+export function conforms(driver: PathDriver, method: DriverMethod, cases: Case[]): void {
+    for (const [args, expected] of cases) {
+        const deviation = findDeviation(driver, method, args);
+        const title = describeCall(driver, method, args) + (deviation ? " (deviates)" : "");
+        it(title, () => {
+            if (deviation) {
+                expect(deviation.node).toEqual(expected);
+                expect(call(driver, method, args)).toEqual(deviation.actual);
+            } else {
+                expect(call(driver, method, args)).toEqual(expected);
+            }
+        });
+    }
+}
@@ -0,0 +1,87 @@
+import { IgnoreMatcher } from "../src/ignore";
+import { posix, win32 } from "./harness";
+
+describe("IgnoreMatcher", () => {
+    const matcher = new IgnoreMatcher(posix)
+        .addFile("/repo/.gitignore", [
+            "# build output",
+            "node_modules/",
+            "/dist",
+            "*.log",
+            "!keep.log",
+            "docs/**",
+            "a/**/z",
+            "\\#hash",
+            "trailing\\ "
+        ].join("\n"))
+        .addFile("/repo/pkg/.gitignore", "!*.log\nlocal.txt\n");
+
+    it("matches unanchored rules at any depth", () => {
+        expect(matcher.ignores("/repo/x/y/debug.log")).toBe(true);
+        expect(matcher.ignores("/repo/x/keep.log")).toBe(false);
+        expect(matcher.ignores("/repo/x/node_modules", true)).toBe(true);
+        expect(matcher.ignores("/repo/x/node_modules/lib/index.js")).toBe(true);
+    });
+
+    it("only matches directories with a trailing slash", () => {
+        expect(matcher.ignores("/repo/node_modules", false)).toBe(false);
+        expect(matcher.ignores("/repo/node_modules", true)).toBe(true);
+    });
+
+    it("anchors rules with a slash to the ignore file", () => {
+        expect(matcher.ignores("/repo/dist/app.js")).toBe(true);
+        expect(matcher.ignores("/repo/src/dist/app.js")).toBe(false);
+        expect(matcher.ignores("/repo/docs", true)).toBe(false);
+        expect(matcher.ignores("/repo/docs/a/b.md")).toBe(true);
+        expect(matcher.ignores("/repo/a/z")).toBe(true);
+        expect(matcher.ignores("/repo/a/b/c/z")).toBe(true);
+    });
+
+    it("honors escapes", () => {
+        expect(matcher.ignores("/repo/#hash")).toBe(true);
+        expect(matcher.ignores("/repo/trailing ")).toBe(true);
+        expect(matcher.ignores("/repo/trailing")).toBe(false);
+    });
+
+    it("lets deeper files override the ones above", () => {
+        expect(matcher.ignores("/repo/pkg/debug.log")).toBe(false);
+        expect(matcher.ignores("/repo/pkg/local.txt")).toBe(true);
+        expect(matcher.ignores("/repo/local.txt")).toBe(false);
+    });
+
+    it("never re-includes paths inside ignored directories", () => {
+        const nested = new IgnoreMatcher(posix).add("/repo", "build/\n!build/keep.txt");
+        expect(nested.ignores("/repo/build/keep.txt")).toBe(true);
+    });
+
+    it("reports the rule which decided", () => {
+        const result = matcher.test("/repo/pkg/debug.log");
+        expect(result.ignored).toBe(false);
+        expect(result.rule).toEqual({
+            pattern: "!*.log",
+            negated: true,
+            directoryOnly: false,
+            anchored: false,
+            directory: "/repo/pkg",
+            source: "/repo/pkg/.gitignore",
+            line: 1
+        });
+        expect(matcher.test("/repo/dist/app.js").rule!.line).toBe(3);
+        expect(matcher.test("/repo/src/app.js")).toEqual({ ignored: false });
+    });
+
+    it("resolves relative paths and leaves outside paths alone", () => {
+        const relative = new IgnoreMatcher(posix).add("project", "*.tmp");
+        expect(relative.ignores("project/a.tmp")).toBe(true);
+        expect(relative.ignores("/home/node/project/b/c.tmp")).toBe(true);
+        expect(relative.ignores("/elsewhere/a.tmp")).toBe(false);
+    });
+
+    it("matches win32 paths with backslashes case-insensitively", () => {
+        const windows = new IgnoreMatcher(win32).addFile("C:\\repo\\.gitignore", "/Build/\nsrc/*.OBJ");
+        expect(windows.ignores("C:\\repo\\build\\out.exe")).toBe(true);
+        expect(windows.ignores("c:/REPO/src/main.obj")).toBe(true);
+        expect(windows.ignores("C:\\repo\\lib\\src\\main.obj")).toBe(false);
+        expect(windows.ignores("D:\\repo\\build\\out.exe")).toBe(false);
+    });
+});
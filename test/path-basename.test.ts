@@ -0,0 +1,79 @@
+import { conforms, posix, win32 } from "./harness";
+
+// ported from node/test/parallel/test-path-basename.js
+const common: [string, string, string][] = [
+    ["test-path-basename.js", ".js", "test-path-basename"],
+    [".js", ".js", ""],
+    ["js", ".js", "js"],
+    ["file.js", ".ts", "file.js"],
+    ["file", ".js", "file"],
+    ["file.js.old", ".js.old", "file"],
+    ["", "", ""],
+    ["/dir/basename.ext", "", "basename.ext"],
+    ["/basename.ext", "", "basename.ext"],
+    ["basename.ext", "", "basename.ext"],
+    ["basename.ext/", "", "basename.ext"],
+    ["basename.ext//", "", "basename.ext"],
+    ["aaa/bbb", "/bbb", "bbb"],
+    ["aaa/bbb", "a/bbb", "bbb"],
+    ["aaa/bbb", "bbb", "bbb"],
+    ["aaa/bbb//", "bbb", "bbb"],
+    ["aaa/bbb", "bb", "b"],
+    ["aaa/bbb", "b", "bb"],
+    ["/aaa/bbb", "/bbb", "bbb"],
+    ["/aaa/bbb", "a/bbb", "bbb"],
+    ["/aaa/bbb", "bbb", "bbb"],
+    ["/aaa/bbb//", "bbb", "bbb"],
+    ["/aaa/bbb", "bb", "b"],
+    ["/aaa/bbb", "b", "bb"],
+    ["/aaa/bbb", "", "bbb"],
+    ["/aaa/", "", "aaa"],
+    ["/aaa/b", "", "b"],
+    ["/a/b", "", "b"],
+    ["//a", "", "a"],
+    ["a", "a", ""]
+];
+
+describe("basename", () => {
+    conforms(posix, "basename", common.map(([path, ext, expected]) => [[path, ext], expected]));
+    conforms(win32, "basename", common.map(([path, ext, expected]) => [[path, ext], expected]));
+
+    // a backslash is a separator on win32
+    conforms(win32, "basename", [
+        [["\\dir\\basename.ext", ""], "basename.ext"],
+        [["\\basename.ext", ""], "basename.ext"],
+        [["basename.ext", ""], "basename.ext"],
+        [["basename.ext\\", ""], "basename.ext"],
+        [["basename.ext\\\\", ""], "basename.ext"],
+        [["foo", ""], "foo"],
+        [["aaa\\bbb", "\\bbb"], "bbb"],
+        [["aaa\\bbb", "a\\bbb"], "bbb"],
+        [["aaa\\bbb", "bbb"], "bbb"],
+        [["aaa\\bbb\\\\\\\\", "bbb"], "bbb"],
+        [["aaa\\bbb", "bb"], "b"],
+        [["aaa\\bbb", "b"], "bb"],
+        [["C:", ""], ""],
+        [["C:.", ""], "."],
+        [["C:\\", ""], ""],
+        [["C:\\dir\\base.ext", ""], "base.ext"],
+        [["C:\\basename.ext", ""], "basename.ext"],
+        [["C:basename.ext", ""], "basename.ext"],
+        [["C:basename.ext\\", ""], "basename.ext"],
+        [["C:basename.ext\\\\", ""], "basename.ext"],
+        [["C:foo", ""], "foo"],
+        [["file:stream", ""], "file:stream"],
+        [["a", "a"], ""],
+        [["C:\\FILE.JS", ".js"], "FILE.JS"]
+    ]);
+
+    // and just another character on posix
+    conforms(posix, "basename", [
+        [["\\dir\\basename.ext", ""], "\\dir\\basename.ext"],
+        [["\\basename.ext", ""], "\\basename.ext"],
+        [["basename.ext", ""], "basename.ext"],
+        [["basename.ext\\", ""], "basename.ext\\"],
+        [["basename.ext\\\\", ""], "basename.ext\\\\"],
+        [["foo", ""], "foo"],
+        [["/a/b/Icon\r", ""], "Icon\r"]
+    ]);
+});
@@ -0,0 +1,54 @@
+import { conforms, posix, win32 } from "./harness";
+
+// ported from node/test/parallel/test-path-dirname.js
+describe("dirname", () => {
+    conforms(posix, "dirname", [
+        [["/a/b/"], "/a"],
+        [["/a/b"], "/a"],
+        [["/a"], "/"],
+        [[""], "."],
+        [["/"], "/"],
+        [["////"], "/"],
+        [["//a"], "//"],
+        [["foo"], "."]
+    ]);
+
+    conforms(win32, "dirname", [
+        [["c:\\"], "c:\\"],
+        [["c:\\foo"], "c:\\"],
+        [["c:\\foo\\"], "c:\\"],
+        [["c:\\foo\\bar"], "c:\\foo"],
+        [["c:\\foo\\bar\\"], "c:\\foo"],
+        [["c:\\foo\\bar\\baz"], "c:\\foo\\bar"],
+        [["c:\\foo bar\\baz"], "c:\\foo bar"],
+        [["\\"], "\\"],
+        [["\\foo"], "\\"],
+        [["\\foo\\"], "\\"],
+        [["\\foo\\bar"], "\\foo"],
+        [["\\foo\\bar\\"], "\\foo"],
+        [["\\foo\\bar\\baz"], "\\foo\\bar"],
+        [["\\foo bar\\baz"], "\\foo bar"],
+        [["c:"], "c:"],
+        [["c:foo"], "c:"],
+        [["c:foo\\"], "c:"],
+        [["c:foo\\bar"], "c:foo"],
+        [["c:foo\\bar\\"], "c:foo"],
+        [["c:foo\\bar\\baz"], "c:foo\\bar"],
+        [["c:foo bar\\baz"], "c:foo bar"],
+        [["file:stream"], "."],
+        [["dir\\file:stream"], "dir"],
+        [["\\\\unc\\share"], "\\\\unc\\share"],
+        [["\\\\unc\\share\\foo"], "\\\\unc\\share\\"],
+        [["\\\\unc\\share\\foo\\"], "\\\\unc\\share\\"],
+        [["\\\\unc\\share\\foo\\bar"], "\\\\unc\\share\\foo"],
+        [["\\\\unc\\share\\foo\\bar\\"], "\\\\unc\\share\\foo"],
+        [["\\\\unc\\share\\foo\\bar\\baz"], "\\\\unc\\share\\foo\\bar"],
+        [["/a/b/"], "/a"],
+        [["/a/b"], "/a"],
+        [["/a"], "/"],
+        [[""], "."],
+        [["/"], "/"],
+        [["////"], "/"],
+        [["foo"], "."]
+    ]);
+});
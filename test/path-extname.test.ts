@@ -0,0 +1,80 @@
+import { Case, conforms, posix, win32 } from "./harness";
+
+// ported from node/test/parallel/test-path-extname.js, the win32 cases use
+// backslashes in place of the slashes
+const common: [string, string][] = [
+    ["test-path-extname.js", ".js"],
+    ["", ""],
+    ["/path/to/file", ""],
+    ["/path/to/file.ext", ".ext"],
+    ["/path.to/file.ext", ".ext"],
+    ["/path.to/file", ""],
+    ["/path.to/.file", ""],
+    ["/path.to/.file.ext", ".ext"],
+    ["/path/to/f.ext", ".ext"],
+    ["/path/to/..ext", ".ext"],
+    ["/path/to/..", ""],
+    ["file", ""],
+    ["file.ext", ".ext"],
+    [".file", ""],
+    [".file.ext", ".ext"],
+    ["/file", ""],
+    ["/file.ext", ".ext"],
+    ["/.file", ""],
+    ["/.file.ext", ".ext"],
+    [".path/file.ext", ".ext"],
+    ["file.ext.ext", ".ext"],
+    ["file.", "."],
+    [".", ""],
+    ["./", ""],
+    [".file.", "."],
+    [".file..", "."],
+    ["..", ""],
+    ["../", ""],
+    ["..file.ext", ".ext"],
+    ["..file", ".file"],
+    ["..file.", "."],
+    ["..file..", "."],
+    ["...", "."],
+    ["...ext", ".ext"],
+    ["....", "."],
+    ["file.ext/", ".ext"],
+    ["file.ext//", ".ext"],
+    ["file/", ""],
+    ["file//", ""],
+    ["file./", "."],
+    ["file.//", "."]
+];
+
+function toCases(cases: [string, string][], replace: boolean): Case[] {
+    return cases.map(([path, expected]) => [[replace ? path.replace(/\//g, "\\") : path], expected]);
+}
+
+describe("extname", () => {
+    conforms(posix, "extname", toCases(common, false));
+    conforms(win32, "extname", toCases(common, true));
+    conforms(win32, "extname", toCases(common, false));
+
+    conforms(win32, "extname", [
+        [[".\\"], ""],
+        [["..\\"], ""],
+        [["file.ext\\"], ".ext"],
+        [["file.ext\\\\"], ".ext"],
+        [["file\\"], ""],
+        [["file\\\\"], ""],
+        [["file.\\"], "."],
+        [["file.\\\\"], "."]
+    ]);
+
+    // a backslash is a regular character on posix
+    conforms(posix, "extname", [
+        [[".\\"], ""],
+        [["..\\"], ".\\"],
+        [["file.ext\\"], ".ext\\"],
+        [["file.ext\\\\"], ".ext\\\\"],
+        [["file\\"], ""],
+        [["file\\\\"], ""],
+        [["file.\\"], ".\\"],
+        [["file.\\\\"], ".\\\\"]
+    ]);
+});
@@ -0,0 +1,34 @@
+import { conforms, posix, win32 } from "./harness";
+
+// ported from node/test/parallel/test-path-isabsolute.js
+describe("isAbsolute", () => {
+    conforms(win32, "isAbsolute", [
+        [["/"], true],
+        [["//"], true],
+        [["//server"], true],
+        [["//server/file"], true],
+        [["\\\\server\\file"], true],
+        [["\\\\server"], true],
+        [["\\\\"], true],
+        [["c"], false],
+        [["c:"], false],
+        [["c:\\"], true],
+        [["c:/"], true],
+        [["c://"], true],
+        [["C:/Users/"], true],
+        [["C:\\Users\\"], true],
+        [["C:cwd/another"], false],
+        [["C:cwd\\another"], false],
+        [["directory/directory"], false],
+        [["directory\\directory"], false],
+        [[""], false]
+    ]);
+
+    conforms(posix, "isAbsolute", [
+        [["/home/foo"], true],
+        [["/home/foo/.."], true],
+        [["bar/"], false],
+        [["./baz"], false],
+        [[""], false]
+    ]);
+});
@@ -0,0 +1,96 @@
+import { Case, conforms, posix, win32 } from "./harness";
+
+// ported from node/test/parallel/test-path-join.js, the win32 results use
+// backslashes in place of the slashes
+const common: Case[] = [
+    [[".", "x/b", "..", "/b/c.js"], "x/b/c.js"],
+    [[], "."],
+    [["/.", "x/b", "..", "/b/c.js"], "/x/b/c.js"],
+    [["/foo", "../../../bar"], "/bar"],
+    [["foo", "../../../bar"], "../../bar"],
+    [["foo/", "../../../bar"], "../../bar"],
+    [["foo/x", "../../../bar"], "../bar"],
+    [["foo/x", "./bar"], "foo/x/bar"],
+    [["foo/x/", "./bar"], "foo/x/bar"],
+    [["foo/x/", ".", "bar"], "foo/x/bar"],
+    [["./"], "./"],
+    [[".", "./"], "./"],
+    [[".", ".", "."], "."],
+    [[".", "./", "."], "."],
+    [[".", "/./", "."], "."],
+    [[".", "/////./", "."], "."],
+    [["."], "."],
+    [["", "."], "."],
+    [["", "foo"], "foo"],
+    [["foo", "/bar"], "foo/bar"],
+    [["", "/foo"], "/foo"],
+    [["", "", "/foo"], "/foo"],
+    [["", "", "foo"], "foo"],
+    [["foo", ""], "foo"],
+    [["foo/", ""], "foo/"],
+    [["foo", "", "/bar"], "foo/bar"],
+    [["./", "..", "/foo"], "../foo"],
+    [["./", "..", "..", "/foo"], "../../foo"],
+    [[".", "..", "..", "/foo"], "../../foo"],
+    [["", "..", "..", "/foo"], "../../foo"],
+    [["/"], "/"],
+    [["/", "."], "/"],
+    [["/", ".."], "/"],
+    [["/", "..", ".."], "/"],
+    [[""], "."],
+    [["", ""], "."],
+    [[" /foo"], " /foo"],
+    [[" ", "foo"], " /foo"],
+    [[" ", "."], " "],
+    [[" ", "/"], " /"],
+    [[" ", ""], " "],
+    [["/", "foo"], "/foo"],
+    [["/", "/foo"], "/foo"],
+    [["/", "//foo"], "/foo"],
+    [["/", "", "/foo"], "/foo"],
+    [["", "/", "foo"], "/foo"],
+    [["", "/", "/foo"], "/foo"]
+];
+
+describe("join", () => {
+    conforms(posix, "join", common);
+    conforms(win32, "join", common.map(([args, expected]) => [args, (expected as string).replace(/\//g, "\\")]));
+
+    // UNC paths are only recognized when the first argument starts one
+    conforms(win32, "join", [
+        [["//foo/bar"], "\\\\foo\\bar\\"],
+        [["\\/foo/bar"], "\\\\foo\\bar\\"],
+        [["\\\\foo/bar"], "\\\\foo\\bar\\"],
+        [["//foo", "bar"], "\\\\foo\\bar\\"],
+        [["//foo/", "bar"], "\\\\foo\\bar\\"],
+        [["//foo", "/bar"], "\\\\foo\\bar\\"],
+        [["//foo", "", "bar"], "\\\\foo\\bar\\"],
+        [["//foo/", "", "bar"], "\\\\foo\\bar\\"],
+        [["//foo/", "", "/bar"], "\\\\foo\\bar\\"],
+        [["", "//foo", "bar"], "\\\\foo\\bar\\"],
+        [["", "//foo/", "bar"], "\\\\foo\\bar\\"],
+        [["", "//foo/", "/bar"], "\\\\foo\\bar\\"],
+        [["\\", "foo/bar"], "\\foo\\bar"],
+        [["\\", "/foo/bar"], "\\foo\\bar"],
+        [["", "/", "/foo/bar"], "\\foo\\bar"],
+        [["//", "foo/bar"], "\\foo\\bar"],
+        [["//", "/foo/bar"], "\\foo\\bar"],
+        [["\\\\", "/", "/foo/bar"], "\\foo\\bar"],
+        [["//"], "\\"],
+        [["//foo"], "\\foo"],
+        [["//foo/"], "\\foo\\"],
+        [["//foo", "/"], "\\foo\\"],
+        [["//foo", "", "/"], "\\foo\\"],
+        [["///foo/bar"], "\\foo\\bar"],
+        [["////foo", "bar"], "\\foo\\bar"],
+        [["\\\\\\/foo/bar"], "\\foo\\bar"],
+        [["c:"], "c:."],
+        [["c:."], "c:."],
+        [["c:", ""], "c:."],
+        [["", "c:"], "c:."],
+        [["c:.", "/"], "c:.\\"],
+        [["c:.", "file"], "c:file"],
+        [["c:", "/"], "c:\\"],
+        [["c:", "file"], "c:\\file"]
+    ]);
+});
@@ -0,0 +1,33 @@
+import { conforms, posix, win32 } from "./harness";
+
+// ported from node/test/parallel/test-path-makelong.js
+describe("toNamespacedPath", () => {
+    const emptyObj = {};
+
+    conforms(posix, "toNamespacedPath", [
+        [["/foo/bar"], "/foo/bar"],
+        [["foo/bar"], "foo/bar"],
+        [[null], null],
+        [[true], true],
+        [[1], 1],
+        [[], undefined],
+        [[emptyObj], emptyObj]
+    ]);
+
+    conforms(win32, "toNamespacedPath", [
+        [["C:\\foo"], "\\\\?\\C:\\foo"],
+        [["C:/foo"], "\\\\?\\C:\\foo"],
+        [["\\\\foo\\bar"], "\\\\?\\UNC\\foo\\bar\\"],
+        [["//foo//bar"], "\\\\?\\UNC\\foo\\bar\\"],
+        [["\\\\?\\foo"], "\\\\?\\foo\\"],
+        [["\\\\?\\c:\\Windows/System"], "\\\\?\\c:\\Windows\\System"],
+        [["\\\\.\\pipe\\somepipe"], "\\\\.\\pipe\\somepipe"],
+        [["foo\\bar"], "\\\\?\\C:\\Users\\node\\foo\\bar"],
+        [[""], ""],
+        [[null], null],
+        [[true], true],
+        [[1], 1],
+        [[], undefined],
+        [[emptyObj], emptyObj]
+    ]);
+});
@@ -0,0 +1,141 @@
+import { PathDriver } from "../src";
+import { conforms, findDeviation, posix, win32 } from "./harness";
+
+// ported from node/test/parallel/test-path-parse-format.js
+
+// [path, root]
+const winPaths: [string, string][] = [
+    ["C:\\path\\dir\\index.html", "C:\\"],
+    ["C:\\another_path\\DIR\\1\\2\\33\\\\index", "C:\\"],
+    ["another_path\\DIR with spaces\\1\\2\\33\\index", ""],
+    ["\\", "\\"],
+    ["\\foo\\C:", "\\"],
+    ["file", ""],
+    ["file:stream", ""],
+    [".\\file", ""],
+    ["C:", "C:"],
+    ["C:.", "C:"],
+    ["C:..", "C:"],
+    ["C:abc", "C:"],
+    ["C:\\", "C:\\"],
+    ["C:\\abc", "C:\\"],
+    ["", ""],
+    ["\\\\server\\share\\file_path", "\\\\server\\share\\"],
+    ["\\\\server two\\shared folder\\file path.zip", "\\\\server two\\shared folder\\"],
+    ["\\\\teela\\admin$\\system32", "\\\\teela\\admin$\\"],
+    ["\\\\?\\UNC\\server\\share", "\\\\?\\UNC\\"]
+];
+
+const unixPaths: [string, string][] = [
+    ["/home/user/dir/file.txt", "/"],
+    ["/home/user/a dir/another File.zip", "/"],
+    ["/home/user/a dir//another&File.", "/"],
+    ["/home/user/a$$$dir//another File.zip", "/"],
+    ["user/dir/another File.zip", ""],
+    ["file", ""],
+    [".\\file", ""],
+    ["./file", ""],
+    ["C:\\foo", ""],
+    ["/", "/"],
+    ["", ""],
+    [".", ""],
+    ["..", ""],
+    ["/foo", "/"],
+    ["/foo.", "/"],
+    ["/foo.bar", "/"],
+    ["/.", "/"],
+    ["/.foo", "/"],
+    ["/.foo.bar", "/"],
+    ["/foo/bar.baz", "/"]
+];
+
+// parse() must agree with the other methods and format() must turn its
+// result back into the path
+function checkParseFormat(driver: PathDriver, paths: [string, string][]): void {
+    for (const [path, root] of paths) {
+        const deviation = findDeviation(driver, "parse", [path]);
+        it(driver.name + ".parse(" + JSON.stringify(path) + ")" + (deviation ? " (deviates)" : ""), () => {
+            const output = driver.parse(path);
+            if (deviation) {
+                expect(output).toEqual(deviation.actual);
+                return;
+            }
+            expect(driver.format(output)).toBe(path);
+            expect(output.root).toBe(root);
+            expect(output.dir.startsWith(output.root)).toBe(true);
+            expect(output.dir).toBe(output.dir ? driver.dirname(path) : "");
+            expect(output.base).toBe(driver.basename(path, ""));
+            expect(output.ext).toBe(driver.extname(path));
+        });
+    }
+}
+
+describe("parse and format", () => {
+    checkParseFormat(win32, winPaths);
+    checkParseFormat(posix, unixPaths);
+
+    conforms(win32, "parse", [
+        [["t"], { base: "t", name: "t", root: "", dir: "", ext: "" }],
+        [["/foo/bar"], { root: "/", dir: "/foo", base: "bar", ext: "", name: "bar" }]
+    ]);
+
+    conforms(win32, "format", [
+        [[{ dir: "some\\dir" }], "some\\dir\\"],
+        [[{ base: "index.html" }], "index.html"],
+        [[{ root: "C:\\" }], "C:\\"],
+        [[{ name: "index", ext: ".html" }], "index.html"],
+        [[{ dir: "some\\dir", name: "index", ext: ".html" }], "some\\dir\\index.html"],
+        [[{ root: "C:\\", name: "index", ext: ".html" }], "C:\\index.html"],
+        [[{}], ""]
+    ]);
+
+    conforms(posix, "format", [
+        [[{ dir: "some/dir" }], "some/dir/"],
+        [[{ base: "index.html" }], "index.html"],
+        [[{ root: "/" }], "/"],
+        [[{ name: "index", ext: ".html" }], "index.html"],
+        [[{ dir: "some/dir", name: "index", ext: ".html" }], "some/dir/index.html"],
+        [[{ root: "/", name: "index", ext: ".html" }], "/index.html"],
+        [[{}], ""]
+    ]);
+
+    // the extension gets its dot when it comes without one
+    conforms(posix, "format", [
+        [[{ name: "x", ext: "png" }], "x.png"],
+        [[{ name: "x", ext: ".png" }], "x.png"]
+    ]);
+    conforms(win32, "format", [
+        [[{ name: "x", ext: "png" }], "x.png"],
+        [[{ name: "x", ext: ".png" }], "x.png"]
+    ]);
+
+    // trailing separators are removed
+    conforms(win32, "parse", [
+        [[".\\"], { root: "", dir: "", base: ".", ext: "", name: "." }],
+        [["\\\\"], { root: "\\", dir: "\\", base: "", ext: "", name: "" }],
+        [["c:\\foo\\\\\\"], { root: "c:\\", dir: "c:\\", base: "foo", ext: "", name: "foo" }],
+        [["D:\\foo\\\\\\bar.baz"], { root: "D:\\", dir: "D:\\foo\\\\", base: "bar.baz", ext: ".baz", name: "bar" }]
+    ]);
+
+    conforms(posix, "parse", [
+        [["./"], { root: "", dir: "", base: ".", ext: "", name: "." }],
+        [["//"], { root: "/", dir: "/", base: "", ext: "", name: "" }],
+        [["///"], { root: "/", dir: "/", base: "", ext: "", name: "" }],
+        [["/foo///"], { root: "/", dir: "/", base: "foo", ext: "", name: "foo" }],
+        [["/foo///bar.baz"], { root: "/", dir: "/foo//", base: "bar.baz", ext: ".baz", name: "bar" }]
+    ]);
+
+    for (const driver of [posix, win32]) {
+        it(driver.name + " rejects values which are not objects", () => {
+            for (const value of [null, undefined, 1, true, false, "string"]) {
+                expect(() => driver.format(value as never)).toThrow(TypeError);
+            }
+        });
+
+        it(driver.name + " rejects a root which is not a string", () => {
+            for (const value of [1, true, {}]) {
+                expect(() => driver.format({ root: value } as never)).toThrow(TypeError);
+            }
+        });
+    }
+});
@@ -0,0 +1,74 @@
+import { InvalidArgumentError, PosixDriver } from "../src";
+import { conforms, posix, win32 } from "./harness";
+
+// ported from node/test/parallel/test-path-relative.js
+describe("relative", () => {
+    conforms(win32, "relative", [
+        [["c:/blah\\blah", "d:/games"], "d:\\games"],
+        [["c:/aaaa/bbbb", "c:/aaaa"], ".."],
+        [["c:/aaaa/bbbb", "c:/cccc"], "..\\..\\cccc"],
+        [["c:/aaaa/bbbb", "c:/aaaa/bbbb"], ""],
+        [["c:/aaaa/bbbb", "c:/aaaa/cccc"], "..\\cccc"],
+        [["c:/aaaa/", "c:/aaaa/cccc"], "cccc"],
+        [["c:/", "c:\\aaaa\\bbbb"], "aaaa\\bbbb"],
+        [["c:/aaaa/bbbb", "d:\\"], "d:\\"],
+        [["c:/AaAa/bbbb", "c:/aaaa/bbbb"], ""],
+        [["c:/aaaaa/", "c:/aaaa/cccc"], "..\\aaaa\\cccc"],
+        [["C:\\foo\\bar\\baz\\quux", "C:\\"], "..\\..\\..\\.."],
+        [["C:\\foo\\test", "C:\\foo\\test\\bar\\package.json"], "bar\\package.json"],
+        [["C:\\foo\\bar\\baz-quux", "C:\\foo\\bar\\baz"], "..\\baz"],
+        [["C:\\foo\\bar\\baz", "C:\\foo\\bar\\baz-quux"], "..\\baz-quux"],
+        [["\\\\foo\\bar", "\\\\foo\\bar\\baz"], "baz"],
+        [["\\\\foo\\bar\\baz", "\\\\foo\\bar"], ".."],
+        [["\\\\foo\\bar\\baz-quux", "\\\\foo\\bar\\baz"], "..\\baz"],
+        [["\\\\foo\\bar\\baz", "\\\\foo\\bar\\baz-quux"], "..\\baz-quux"],
+        [["C:\\baz-quux", "C:\\baz"], "..\\baz"],
+        [["C:\\baz", "C:\\baz-quux"], "..\\baz-quux"],
+        [["\\\\foo\\baz-quux", "\\\\foo\\baz"], "..\\baz"],
+        [["\\\\foo\\baz", "\\\\foo\\baz-quux"], "..\\baz-quux"],
+        [["C:\\baz", "\\\\foo\\bar\\baz"], "\\\\foo\\bar\\baz"],
+        [["\\\\foo\\bar\\baz", "C:\\baz"], "C:\\baz"]
+    ]);
+
+    conforms(posix, "relative", [
+        [["/var/lib", "/var"], ".."],
+        [["/var/lib", "/bin"], "../../bin"],
+        [["/var/lib", "/var/lib"], ""],
+        [["/var/lib", "/var/apache"], "../apache"],
+        [["/var/", "/var/lib"], "lib"],
+        [["/", "/var/lib"], "var/lib"],
+        [["/foo/test", "/foo/test/bar/package.json"], "bar/package.json"],
+        [["/Users/a/web/b/test/mails", "/Users/a/web/b"], "../.."],
+        [["/foo/bar/baz-quux", "/foo/bar/baz"], "../baz"],
+        [["/foo/bar/baz", "/foo/bar/baz-quux"], "../baz-quux"],
+        [["/baz-quux", "/baz"], "../baz"],
+        [["/baz", "/baz-quux"], "../baz-quux"],
+        [["/page1/page2/foo", "/"], "../../.."]
+    ]);
+
+    // a driver without a cwd resolves relative paths to relative paths
+    conforms(new PosixDriver(), "relative", [
+        [["a/b", "a/c"], "../c"],
+        [["a", "b/c"], "../b/c"],
+        [[".", "a"], "a"],
+        [["a", ""], ".."],
+        [["a", "../b"], "../../b"],
+        [["../a", "../b"], "../b"]
+    ]);
+
+    it("throws where the missing cwd would be needed", () => {
+        const driver = new PosixDriver();
+        for (const [from, to] of [["/a", "a"], ["a", "/a"], ["../a", "b"], ["..", "."]]) {
+            expect(() => driver.relative(from, to)).toThrow(InvalidArgumentError);
+        }
+        try {
+            driver.relative("/a", "a");
+            fail("expected an InvalidArgumentError");
+        } catch (e) {
+            expect(e.code).toBe("ERR_INVALID_ARG_VALUE");
+            expect(e.argument).toBe("to");
+            expect(e.value).toBe("a");
+        }
+        expect(new PosixDriver({ cwd: "/home" }).relative("/a", "a")).toBe("../home/a");
+    });
+});
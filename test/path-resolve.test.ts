@@ -0,0 +1,41 @@
+import { Win32Driver } from "../src";
+import { conforms, posix, win32 } from "./harness";
+
+// ported from node/test/parallel/test-path-resolve.js, process.cwd() is
+// replaced by the cwd of the driver
+describe("resolve", () => {
+    conforms(win32, "resolve", [
+        [["c:/blah\\blah", "d:/games", "c:../a"], "c:\\blah\\a"],
+        [["c:/ignore", "d:\\a/b\\c/d", "\\e.exe"], "d:\\e.exe"],
+        [["c:/ignore", "c:/some/file"], "c:\\some\\file"],
+        [["d:/ignore", "d:some/dir//"], "d:\\ignore\\some\\dir"],
+        [["."], "C:\\Users\\node"],
+        [["//server/share", "..", "relative\\"], "\\\\server\\share\\relative"],
+        [["c:/", "//"], "c:\\"],
+        [["c:/", "//dir"], "c:\\dir"],
+        [["c:/", "//server/share"], "\\\\server\\share\\"],
+        [["c:/", "//server//share"], "\\\\server\\share\\"],
+        [["c:/", "///some//dir"], "c:\\some\\dir"],
+        [["C:\\foo\\tmp.3\\", "..\\tmp.3\\cycles\\root.js"], "C:\\foo\\tmp.3\\cycles\\root.js"]
+    ]);
+
+    conforms(posix, "resolve", [
+        [["/var/lib", "../", "file/"], "/var/file"],
+        [["/var/lib", "/../", "file/"], "/file"],
+        [["a/b/c/", "../../.."], "/home/node"],
+        [["."], "/home/node"],
+        [["/some/dir", ".", "/absolute/"], "/absolute"],
+        [["/foo/tmp.3/", "../tmp.3/cycles/root.js"], "/foo/tmp.3/cycles/root.js"]
+    ]);
+
+    // drive-relative paths use the cwd of their drive from the "=X:"
+    // variables when the cwd is on another drive
+    const drives = new Win32Driver({ cwd: "C:\\Users\\node", env: { "=D:": "D:\\work" } });
+    conforms(drives, "resolve", [
+        [["C:"], "C:\\Users\\node"],
+        [["c:foo"], "c:\\Users\\node\\foo"],
+        [["D:"], "D:\\work"],
+        [["D:foo"], "D:\\work\\foo"],
+        [["E:foo"], "E:\\foo"]
+    ]);
+});
@@ -0,0 +1,31 @@
+import { conforms, posix, win32 } from "./harness";
+
+// ported from node/test/parallel/test-path-zero-length-strings.js, the
+// empty path stands for the cwd
+describe("zero-length strings", () => {
+    for (const driver of [posix, win32]) {
+        const pwd = driver.cwd;
+        conforms(driver, "join", [
+            [[""], "."],
+            [["", ""], "."],
+            [[pwd], pwd],
+            [[pwd, ""], pwd]
+        ]);
+        conforms(driver, "normalize", [
+            [[""], "."],
+            [[pwd], pwd]
+        ]);
+        conforms(driver, "isAbsolute", [
+            [[""], false]
+        ]);
+        conforms(driver, "resolve", [
+            [[""], pwd],
+            [["", ""], pwd]
+        ]);
+        conforms(driver, "relative", [
+            [["", pwd], ""],
+            [[pwd, ""], ""],
+            [[pwd, pwd], ""]
+        ]);
+    }
+});
@@ -0,0 +1,57 @@
+import { Path, PosixDriver, posixDriver, urlDriver, VirtualFileSystem, win32Driver } from "../src";
+import { DriverMethod, call, posix, win32 } from "./harness";
+
+// ported from node/test/parallel/test-path.js
+describe("path", () => {
+    it("has the separators of the platform", () => {
+        expect(win32.separator).toBe("\\");
+        expect(posix.separator).toBe("/");
+    });
+
+    it("has the delimiters of the platform", () => {
+        expect(win32.delimiter).toBe(";");
+        expect(posix.delimiter).toBe(":");
+    });
+
+    // every method taking paths rejects values which are not strings
+    const typeErrorTests: unknown[] = [true, false, 7, null, {}, undefined, [], NaN];
+    const methods: DriverMethod[] = ["join", "resolve", "normalize", "isAbsolute", "relative", "parse",
+        "dirname", "basename", "extname"];
+
+    for (const driver of [posix, win32]) {
+        for (const method of methods) {
+            it(driver.name + "." + method + " rejects values which are not strings", () => {
+                for (const value of typeErrorTests) {
+                    const args = method === "relative" ? [value, "foo"] : [value];
+                    expect(() => call(driver, method, args)).toThrow(TypeError);
+                    if (method === "relative") {
+                        expect(() => call(driver, method, ["foo", value])).toThrow(TypeError);
+                    }
+                    // undefined is a valid extension
+                    if (method === "basename" && value !== undefined) {
+                        expect(() => call(driver, method, ["foo", value])).toThrow(TypeError);
+                    }
+                }
+            });
+        }
+    }
+});
+
+describe("Path namespaces", () => {
+    it("resolve against the runtime cwd like Node's path.posix and path.win32", () => {
+        expect(Path.posix.isAbsolute(Path.posix.cwd)).toBe(true);
+        expect(Path.posix.resolve("x")).toBe(Path.posix.join(Path.posix.cwd, "x"));
+        expect(Path.posix.relative("/a/b", "c")).toBe(Path.posix.relative("/a/b", Path.posix.resolve("c")));
+        expect(Path.win32.isAbsolute(Path.win32.resolve("x"))).toBe(true);
+    });
+
+    it("do not share the exported drivers", () => {
+        expect(Path.posix.driver).not.toBe(posixDriver);
+        expect(Path.win32.driver).not.toBe(win32Driver);
+        expect(Path.url.driver).not.toBe(urlDriver);
+        const cwd = Path.posix.cwd;
+        new VirtualFileSystem(new PosixDriver());
+        new VirtualFileSystem(posixDriver);
+        expect(Path.posix.cwd).toBe(cwd);
+    });
+});
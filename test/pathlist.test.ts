@@ -0,0 +1,57 @@
+import { dedupeList, formatList, parseList, which, whichSync } from "../src/pathlist";
+import { posix, win32 } from "./harness";
+
+describe("path lists", () => {
+    it("parses empty posix entries as the cwd", () => {
+        expect(parseList("/bin::/usr/bin:", posix)).toEqual(["/bin", ".", "/usr/bin", "."]);
+        expect(parseList("", posix)).toEqual([]);
+    });
+
+    it("parses quoted win32 entries and drops empty ones", () => {
+        expect(parseList("C:\\a;;\"C:\\b;c\";D:\\", win32)).toEqual(["C:\\a", "C:\\b;c", "D:\\"]);
+        expect(formatList(["C:\\a", "C:\\b;c"], win32)).toBe("C:\\a;\"C:\\b;c\"");
+        expect(() => formatList(["/a:b"], posix)).toThrow(TypeError);
+    });
+
+    it("dedupes entries under the comparison policy", () => {
+        expect(dedupeList(["/bin", "/bin/", "/usr/../bin", "/Bin"], posix)).toEqual(["/bin", "/Bin"]);
+        expect(dedupeList(["C:\\Bin", "c:/bin\\", "C:\\"], win32)).toEqual(["C:\\Bin", "C:\\"]);
+    });
+
+    describe("which", () => {
+        function probe(existing: string[]): [(path: string) => boolean, string[]] {
+            const probed: string[] = [];
+            return [(path: string) => {
+                probed.push(path);
+                return existing.indexOf(path) >= 0;
+            }, probed];
+        }
+
+        it("keeps cwd entries explicit on posix", () => {
+            const [exists] = probe(["./tool"]);
+            expect(whichSync("tool", exists, { path: "/bin::/usr/bin" }, posix)).toBe("./tool");
+            expect(whichSync("tool", probe(["./tool"])[0], { path: "./" }, posix)).toBe("./tool");
+            expect(whichSync("tool", probe(["../x/tool"])[0], { path: "../x" }, posix)).toBe("../x/tool");
+        });
+
+        it("probes every directory once", () => {
+            const [exists, probed] = probe([]);
+            expect(whichSync("tool", exists, { path: "/bin:/usr/bin:/bin/:.::" }, posix)).toBeUndefined();
+            expect(probed).toEqual(["/bin/tool", "/usr/bin/tool", "./tool"]);
+        });
+
+        it("tries PATHEXT on win32", () => {
+            const [exists, probed] = probe(["C:\\bin\\tool.CMD"]);
+            expect(whichSync("tool", exists, { path: "C:\\bin;c:/BIN", pathext: ".EXE;.CMD" }, win32))
+                .toBe("C:\\bin\\tool.CMD");
+            expect(probed).toEqual(["C:\\bin\\tool.EXE", "C:\\bin\\tool.CMD"]);
+            expect(whichSync("tool", probe([".\\tool.EXE"])[0], { path: ".", pathext: ".EXE" }, win32))
+                .toBe(".\\tool.EXE");
+        });
+
+        it("skips the list for commands with a separator", async () => {
+            await expect(which("./run", (path) => Promise.resolve(path === "./run"), { path: "/bin" }, posix))
+                .resolves.toBe("./run");
+        });
+    });
+});
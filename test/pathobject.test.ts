@@ -0,0 +1,104 @@
+import { InvalidPathError, Path, PathObject, PosixDriver } from "../src";
+import { posix, win32 } from "./harness";
+
+describe("PathObject", () => {
+    const posixPath = new Path(posix);
+    const win32Path = new Path(win32);
+
+    it("is created normalized by Path.from", () => {
+        expect(Path.posix.from("/a", "b/../c/").toString()).toBe("/a/c");
+        expect(Path.win32.from("C:/a", "b\\").toString()).toBe("C:\\a\\b");
+        expect(posixPath.from("/").toString()).toBe("/");
+        expect(posixPath.from().toString()).toBe(".");
+        expect(win32Path.from("C:\\").toString()).toBe("C:\\");
+        expect(posixPath.from("/a/b.js")).toBeInstanceOf(PathObject);
+        expect(posixPath.from("/a/b.js").driver).toBe(posix);
+        expect(JSON.stringify({ path: win32Path.from("C:\\a\\") })).toBe("{\"path\":\"C:\\\\a\"}");
+    });
+
+    it("exposes the parsed parts", () => {
+        const path = posixPath.from("/srv/app.min.js");
+        expect([path.root, path.dir, path.base, path.name, path.ext])
+            .toEqual(["/", "/srv", "app.min.js", "app.min", ".js"]);
+        expect(path.parse()).toEqual({ root: "/", dir: "/srv", base: "app.min.js", ext: ".js", name: "app.min" });
+        const drive = win32Path.from("C:\\Users\\file.txt");
+        expect([drive.root, drive.dir, drive.base]).toEqual(["C:\\", "C:\\Users", "file.txt"]);
+    });
+
+    it("joins and resolves", () => {
+        expect(posixPath.from("/a").join("b", posixPath.from("c/../d")).toString()).toBe("/a/b/d");
+        expect(posixPath.from("a").resolve("b").toString()).toBe("/home/node/a/b");
+        expect(posixPath.from("/a").resolve("/x").toString()).toBe("/x");
+        expect(win32Path.from("C:\\a").join("..", "b").toString()).toBe("C:\\b");
+        expect(win32Path.from("a").resolve().toString()).toBe("C:\\Users\\node\\a");
+    });
+
+    it("walks up to the parent", () => {
+        expect(posixPath.from("/a/b").parent.toString()).toBe("/a");
+        expect(posixPath.from("/a").parent.toString()).toBe("/");
+        expect(posixPath.from("/").parent.toString()).toBe("/");
+        expect(posixPath.from("a").parent.toString()).toBe(".");
+        expect(win32Path.from("C:\\a\\b").parent.toString()).toBe("C:\\a");
+        expect(win32Path.from("\\\\server\\share\\a").parent.toString()).toBe("\\\\server\\share\\");
+    });
+
+    it("replaces the name and the extension", () => {
+        const path = posixPath.from("/src/index.ts");
+        expect(path.withName("main").toString()).toBe("/src/main.ts");
+        expect(path.withExt(".js").toString()).toBe("/src/index.js");
+        expect(path.withExt("js").toString()).toBe("/src/index.js");
+        expect(path.withExt("").toString()).toBe("/src/index");
+        expect(path.withBase("README.md").toString()).toBe("/src/README.md");
+        expect(win32Path.from("C:\\a\\b.txt").withExt(".md").toString()).toBe("C:\\a\\b.md");
+        expect(win32Path.from("C:\\a\\b.txt").withName("c").toString()).toBe("C:\\a\\c.txt");
+        expect(() => posixPath.from("/").withName("x")).toThrow(InvalidPathError);
+        expect(() => win32Path.from("C:\\").withExt(".x")).toThrow(InvalidPathError);
+    });
+
+    it("relates to other paths", () => {
+        expect(posixPath.from("/a/b/c").relativeTo("/a/d").toString()).toBe("../b/c");
+        expect(posixPath.from("/a/b").relativeTo(posixPath.from("/a/b")).toString()).toBe(".");
+        expect(win32Path.from("C:\\a\\b").relativeTo("c:\\A").toString()).toBe("b");
+        expect(win32Path.from("D:\\a").relativeTo("C:\\a").toString()).toBe("D:\\a");
+    });
+
+    it("compares under the policy of its driver", () => {
+        expect(posixPath.from("/a/b").equals("/a/./b/")).toBe(true);
+        expect(posixPath.from("/a/b").equals("/A/b")).toBe(false);
+        expect(win32Path.from("C:\\A\\b").equals("c:/a/B")).toBe(true);
+        expect(win32Path.from("C:\\a").equals(win32Path.from("c:\\a"))).toBe(true);
+        expect(posixPath.from("/a").equals(new Path(new PosixDriver()).from("/a"))).toBe(false);
+    });
+
+    it("tells absolute paths apart", () => {
+        expect(posixPath.from("/a").isAbsolute).toBe(true);
+        expect(posixPath.from("a").isAbsolute).toBe(false);
+        expect(win32Path.from("C:\\a").isAbsolute).toBe(true);
+        expect(win32Path.from("\\\\server\\share").isAbsolute).toBe(true);
+        expect(win32Path.from("C:a").isAbsolute).toBe(false);
+    });
+
+    for (const [path, driver] of [[posixPath.from("/a/b.ts"), "posix"], [win32Path.from("C:\\a\\b.ts"), "win32"]] as const) {
+        it("returns new objects and leaves the " + driver + " receiver unchanged", () => {
+            const results = [
+                path.parent,
+                path.join("c"),
+                path.resolve("c"),
+                path.relativeTo(path.root),
+                path.withBase("c.js"),
+                path.withName("c"),
+                path.withExt(".js")
+            ];
+            for (const result of results) {
+                expect(result).toBeInstanceOf(PathObject);
+                expect(result).not.toBe(path);
+                expect(result.driver).toBe(path.driver);
+            }
+            expect(path.toString()).toBe(driver === "posix" ? "/a/b.ts" : "C:\\a\\b.ts");
+            expect(path.base).toBe("b.ts");
+            expect(Object.isFrozen(path)).toBe(true);
+            path.parse().base = "x";
+            expect(path.base).toBe("b.ts");
+        });
+    }
+});
@@ -0,0 +1,120 @@
+import { PosixDriver } from "../src";
+import { InvalidPathError } from "../src/errors";
+import { AsyncRealpathAdapter, LinkStats, realpath, RealpathAdapter, realpathSync } from "../src/realpath";
+import { posix, win32 } from "./harness";
+
+// adapter answering from a table of links, every other path exists and is
+// not a link
+function adapter(links: Record<string, string>, junctions: string[] = []): RealpathAdapter {
+    return {
+        lstat(path: string): LinkStats {
+            return {
+                isSymbolicLink: () => links.hasOwnProperty(path) && junctions.indexOf(path) < 0,
+                isJunction: () => junctions.indexOf(path) >= 0
+            };
+        },
+        readlink(path: string): string {
+            return links[path];
+        }
+    };
+}
+
+function asyncAdapter(links: Record<string, string>): AsyncRealpathAdapter {
+    const sync = adapter(links);
+    return {
+        lstat: (path: string) => Promise.resolve(sync.lstat(path)),
+        readlink: (path: string) => Promise.resolve(sync.readlink(path))
+    };
+}
+
+describe("realpath", () => {
+    describe("posix", () => {
+        it("follows absolute and relative links", () => {
+            const links = adapter({ "/a/abs": "/b", "/a/rel": "../c/d", "/c/d": "e" });
+            expect(realpathSync("/a/abs/x", links, posix)).toBe("/b/x");
+            expect(realpathSync("/a/rel/x", links, posix)).toBe("/c/e/x");
+            expect(realpathSync("/a//./plain/", links, posix)).toBe("/a/plain");
+        });
+
+        it("resolves .. physically after a link", () => {
+            const links = adapter({ "/a/l": "/x/y" });
+            expect(realpathSync("/a/l/../z", links, posix)).toBe("/x/z");
+            expect(realpathSync("/a/m/../z", links, posix)).toBe("/a/z");
+        });
+
+        it("resolves relative paths against the cwd", () => {
+            const links = adapter({ "/home/node/l": "/target" });
+            expect(realpathSync("l/x", links, posix)).toBe("/target/x");
+            expect(realpathSync("../l", links, posix)).toBe("/home/l");
+        });
+
+        it("rejects relative paths without a cwd", () => {
+            const links = adapter({ "/a/l": "/b" });
+            expect(() => realpathSync("a/l", links, new PosixDriver())).toThrow(InvalidPathError);
+        });
+
+        it("detects link loops", () => {
+            const links = adapter({ "/a": "/b", "/b": "a", "/self": "self" });
+            for (const path of ["/a/x", "/self"]) {
+                try {
+                    realpathSync(path, links, posix);
+                    fail("expected a loop error");
+                } catch (e) {
+                    expect(e).toBeInstanceOf(InvalidPathError);
+                    expect(e.code).toBe("ELOOP");
+                }
+            }
+        });
+
+        it("passes the adapter errors through", () => {
+            const failing: RealpathAdapter = {
+                lstat: () => {
+                    throw new Error("ENOENT");
+                },
+                readlink: () => ""
+            };
+            expect(() => realpathSync("/missing", failing, posix)).toThrow("ENOENT");
+        });
+    });
+
+    describe("win32", () => {
+        it("follows junctions with a \\??\\ target", () => {
+            const links = adapter({ "C:\\j": "\\??\\D:\\data" }, ["C:\\j"]);
+            expect(realpathSync("C:\\j\\x", links, win32)).toBe("D:\\data\\x");
+        });
+
+        it("rejects junctions with a relative target", () => {
+            const links = adapter({ "C:\\j": "data" }, ["C:\\j"]);
+            expect(() => realpathSync("C:\\j\\x", links, win32)).toThrow(InvalidPathError);
+        });
+
+        it("resolves relative symlinks against their directory", () => {
+            const links = adapter({ "C:\\a\\l": "..\\b" });
+            expect(realpathSync("C:\\a\\l\\x", links, win32)).toBe("C:\\b\\x");
+        });
+
+        it("collapses .. before following links", () => {
+            const links = adapter({ "C:\\l": "D:\\x\\y" });
+            expect(realpathSync("C:\\l\\..\\z", links, win32)).toBe("C:\\z");
+            expect(realpathSync("l\\file", links, win32)).toBe("C:\\Users\\node\\l\\file");
+        });
+
+        it("follows UNC paths", () => {
+            const links = adapter({ "\\\\server\\share\\l": "\\\\other\\share\\t" });
+            expect(realpathSync("\\\\server\\share\\l\\x", links, win32)).toBe("\\\\other\\share\\t\\x");
+        });
+    });
+
+    describe("async", () => {
+        it("gives the same results as the sync runner", async () => {
+            const links = { "/a/l": "/x/y", "/a/rel": "../c" };
+            await expect(realpath("/a/l/../z", asyncAdapter(links), posix)).resolves.toBe("/x/z");
+            await expect(realpath("/a/rel/f", asyncAdapter(links), posix)).resolves.toBe("/c/f");
+        });
+
+        it("rejects loops and relative paths without a cwd", async () => {
+            await expect(realpath("/a", asyncAdapter({ "/a": "/a" }), posix)).rejects.toThrow(InvalidPathError);
+            await expect(realpath("a", asyncAdapter({}), new PosixDriver())).rejects.toThrow(InvalidPathError);
+        });
+    });
+});
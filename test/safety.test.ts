@@ -0,0 +1,132 @@
+import { PosixDriver, Win32Driver } from "../src";
+import { isInside, isSafeSegment, PathTraversalError, safeJoin } from "../src/safety";
+import { posix, win32 } from "./harness";
+
+describe("safety", () => {
+    const noCwdPosix = new PosixDriver();
+    const noCwdWin32 = new Win32Driver();
+
+    describe("isSafeSegment", () => {
+        it("rejects names referring to directories or containing separators", () => {
+            for (const driver of [posix, win32]) {
+                expect(isSafeSegment("file.txt", driver)).toBe(true);
+                expect(isSafeSegment("", driver)).toBe(false);
+                expect(isSafeSegment(".", driver)).toBe(false);
+                expect(isSafeSegment("..", driver)).toBe(false);
+                expect(isSafeSegment("a/b", driver)).toBe(false);
+                expect(isSafeSegment("a\0b", driver)).toBe(false);
+            }
+            expect(isSafeSegment("a\\b", posix)).toBe(true);
+            expect(isSafeSegment("a\\b", win32)).toBe(false);
+        });
+
+        it("rejects what win32 reads differently", () => {
+            expect(isSafeSegment("C:foo", win32)).toBe(false);
+            expect(isSafeSegment("file.txt:stream", win32)).toBe(false);
+            expect(isSafeSegment("file.txt::$DATA", win32)).toBe(false);
+            expect(isSafeSegment("NUL", win32)).toBe(false);
+            expect(isSafeSegment("con.txt", win32)).toBe(false);
+            expect(isSafeSegment("Nul.tar.gz", win32)).toBe(false);
+            expect(isSafeSegment("COM1", win32)).toBe(false);
+            expect(isSafeSegment("LPT¹", win32)).toBe(false);
+            expect(isSafeSegment("file.", win32)).toBe(false);
+            expect(isSafeSegment("file ", win32)).toBe(false);
+            expect(isSafeSegment(".. ", win32)).toBe(false);
+            expect(isSafeSegment("console", win32)).toBe(true);
+            // posix takes them as plain names
+            expect(isSafeSegment("C:foo", posix)).toBe(true);
+            expect(isSafeSegment("NUL", posix)).toBe(true);
+            expect(isSafeSegment("file.", posix)).toBe(true);
+        });
+
+        it("rejects values which are not strings", () => {
+            expect(isSafeSegment(undefined as unknown as string, posix)).toBe(false);
+        });
+    });
+
+    describe("isInside", () => {
+        it("compares whole segments", () => {
+            expect(isInside("/srv/app", "/srv/app", posix)).toBe(true);
+            expect(isInside("/srv/app", "/srv/app/a/b", posix)).toBe(true);
+            expect(isInside("/srv/app", "/srv/apple", posix)).toBe(false);
+            expect(isInside("/srv/app", "/srv/app/../apple", posix)).toBe(false);
+            expect(isInside("/", "/etc", posix)).toBe(true);
+        });
+
+        it("resolves relative paths against the cwd", () => {
+            expect(isInside(".", "x", posix)).toBe(true);
+            expect(isInside("", "x/y", posix)).toBe(true);
+            expect(isInside("/home/node", "x", posix)).toBe(true);
+            expect(isInside(".", "../x", posix)).toBe(false);
+        });
+
+        it("keeps relative paths relative without a cwd", () => {
+            expect(isInside(".", "x", noCwdPosix)).toBe(true);
+            expect(isInside("", "x", noCwdPosix)).toBe(true);
+            expect(isInside("a", "a/b", noCwdPosix)).toBe(true);
+            expect(isInside(".", "../x", noCwdPosix)).toBe(false);
+            expect(isInside(".", "a/../../x", noCwdPosix)).toBe(false);
+            expect(isInside("..", "../x", noCwdPosix)).toBe(true);
+            expect(isInside("a", "/a/b", noCwdPosix)).toBe(false);
+            expect(isInside(".", "x", noCwdWin32)).toBe(true);
+            expect(isInside(".", "..\\x", noCwdWin32)).toBe(false);
+        });
+
+        it("follows the comparison policy on win32", () => {
+            expect(isInside("C:\\Base", "c:/base/file", win32)).toBe(true);
+            expect(isInside("C:\\base", "D:\\base\\file", win32)).toBe(false);
+            expect(isInside("\\\\server\\share", "//SERVER/share/dir", win32)).toBe(true);
+            expect(isInside("\\\\server\\share", "\\\\server\\other", win32)).toBe(false);
+            expect(isInside("/srv/App", "/srv/app/x", posix)).toBe(false);
+        });
+    });
+
+    describe("safeJoin", () => {
+        it("joins paths staying inside the base", () => {
+            expect(safeJoin("/srv", ["a", "b/c"], posix)).toBe("/srv/a/b/c");
+            expect(safeJoin("/srv", ["a/../b"], posix)).toBe("/srv/b");
+            expect(safeJoin("/srv", ["a\\..\\b"], posix)).toBe("/srv/a\\..\\b");
+            expect(safeJoin("C:\\srv", ["a/b\\c"], win32)).toBe("C:\\srv\\a\\b\\c");
+        });
+
+        it("accepts relative bases with and without a cwd", () => {
+            expect(safeJoin(".", ["x"], posix)).toBe("x");
+            expect(safeJoin(".", ["x"], noCwdPosix)).toBe("x");
+            expect(safeJoin("", ["x/y"], noCwdPosix)).toBe("x/y");
+            expect(safeJoin("base", ["x"], noCwdPosix)).toBe("base/x");
+            expect(safeJoin(".", ["x"], noCwdWin32)).toBe("x");
+            expect(() => safeJoin(".", ["../x"], noCwdPosix)).toThrow(PathTraversalError);
+        });
+
+        it("rejects traversal", () => {
+            expect(() => safeJoin("/srv", [".."], posix)).toThrow(PathTraversalError);
+            expect(() => safeJoin("/srv", ["a/../../etc"], posix)).toThrow(PathTraversalError);
+            expect(() => safeJoin("C:\\srv", ["a/..\\..\\x"], win32)).toThrow(PathTraversalError);
+            expect(() => safeJoin("C:\\srv", ["..\\x"], win32)).toThrow(PathTraversalError);
+        });
+
+        it("keeps absolute and rooted segments inside the base", () => {
+            expect(safeJoin("/srv", ["/etc/passwd"], posix)).toBe("/srv/etc/passwd");
+            expect(safeJoin("C:\\srv", ["\\\\server\\share"], win32)).toBe("C:\\srv\\server\\share");
+        });
+
+        it("rejects names win32 reads differently", () => {
+            for (const segment of ["C:foo", "D:\\x", "file:stream", "file::$DATA", "NUL", "aux.txt", "dir.", "dir "]) {
+                expect(() => safeJoin("C:\\srv", [segment], win32)).toThrow(PathTraversalError);
+            }
+        });
+
+        it("reports why the path was rejected", () => {
+            try {
+                safeJoin("/srv", ["../x"], posix);
+                fail("expected a PathTraversalError");
+            } catch (e) {
+                expect(e).toBeInstanceOf(TypeError);
+                expect(e.code).toBe("ERR_PATH_TRAVERSAL");
+                expect(e.base).toBe("/srv");
+                expect(e.path).toBe("/x");
+            }
+            expect(() => safeJoin("/srv", [1 as unknown as string], posix)).toThrow(TypeError);
+        });
+    });
+});
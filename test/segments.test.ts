@@ -0,0 +1,67 @@
+import { commonAncestor, endsWith, fromSegments, normalizedSegments, segments, startsWith } from "../src/segments";
+import { posix, win32 } from "./harness";
+
+describe("segments", () => {
+    it("splits posix paths", () => {
+        expect(segments("/a//b/", posix)).toEqual({ root: "/", parts: ["a", "b"] });
+        expect(segments("a/./../b", posix)).toEqual({ root: "", parts: ["a", ".", "..", "b"] });
+        expect(segments("", posix)).toEqual({ root: "", parts: [] });
+        expect(segments("a\\b", posix)).toEqual({ root: "", parts: ["a\\b"] });
+    });
+
+    it("splits win32 drive and UNC paths", () => {
+        expect(segments("C:\\a/b\\", win32)).toEqual({ root: "C:\\", parts: ["a", "b"] });
+        expect(segments("C:a\\b", win32)).toEqual({ root: "C:", parts: ["a", "b"] });
+        expect(segments("C:", win32)).toEqual({ root: "C:", parts: [] });
+        expect(segments("\\a", win32)).toEqual({ root: "\\", parts: ["a"] });
+        expect(segments("\\\\server\\share\\a", win32)).toEqual({ root: "\\\\server\\share\\", parts: ["a"] });
+        expect(segments("//server/share", win32)).toEqual({ root: "//server/share", parts: [] });
+    });
+
+    it("drops . and .. of normalized segments", () => {
+        expect(normalizedSegments("a/./../b/", posix)).toEqual({ root: "", parts: ["b"] });
+        expect(normalizedSegments(".", posix)).toEqual({ root: "", parts: [] });
+        expect(normalizedSegments("../a", posix)).toEqual({ root: "", parts: ["..", "a"] });
+        expect(normalizedSegments("C:.\\x\\..", win32)).toEqual({ root: "C:", parts: [] });
+    });
+
+    it("joins segments back", () => {
+        for (const path of ["/", "/a/b", "a/b", ""]) {
+            expect(fromSegments(segments(path, posix), posix)).toBe(path);
+        }
+        for (const path of ["C:\\", "C:\\a", "C:a\\b", "C:", "\\a", "\\\\server\\share\\a"]) {
+            expect(fromSegments(segments(path, win32), win32)).toBe(path);
+        }
+        expect(fromSegments({ root: "\\\\server\\share", parts: ["a"] }, win32)).toBe("\\\\server\\share\\a");
+        expect(fromSegments({ root: "C:", parts: ["a"] }, win32)).toBe("C:a");
+        expect(fromSegments({ root: "", parts: [] }, posix)).toBe("");
+    });
+
+    it("finds the common ancestor", () => {
+        expect(commonAncestor(["/srv/app/a", "/srv/app/b/c", "/srv/apple"], posix)).toBe("/srv");
+        expect(commonAncestor(["/a", "/b"], posix)).toBe("/");
+        expect(commonAncestor(["x/y", "x/z"], posix)).toBe("/home/node/x");
+        expect(commonAncestor(["C:\\Users\\A\\x", "c:/users/a/y"], win32)).toBe("C:\\Users\\A");
+        expect(commonAncestor(["\\\\server\\share\\a", "//SERVER/share/b"], win32)).toBe("\\\\server\\share\\");
+        expect(commonAncestor(["C:\\a", "D:\\a"], win32)).toBeUndefined();
+        expect(commonAncestor(["\\\\server\\one\\a", "\\\\server\\two\\a"], win32)).toBeUndefined();
+        expect(commonAncestor([], posix)).toBeUndefined();
+    });
+
+    it("matches prefixes and suffixes by whole segments", () => {
+        expect(startsWith("/app/main.js", "/app", posix)).toBe(true);
+        expect(startsWith("/apple", "/app", posix)).toBe(false);
+        expect(startsWith("/app", "/app/./x/..", posix)).toBe(true);
+        expect(startsWith("app/x", "/app", posix)).toBe(false);
+        expect(startsWith("C:\\App\\x", "c:/app", win32)).toBe(true);
+        expect(startsWith("C:app", "C:\\app", win32)).toBe(false);
+        expect(startsWith("\\\\server\\share\\x", "//server/share", win32)).toBe(true);
+
+        expect(endsWith("/a/b/c.js", "b/c.js", posix)).toBe(true);
+        expect(endsWith("/a/bb/c.js", "b/c.js", posix)).toBe(false);
+        expect(endsWith("/a/b", "/a/b", posix)).toBe(true);
+        expect(endsWith("/x/a/b", "/a/b", posix)).toBe(false);
+        expect(endsWith("C:\\Dir\\File.TXT", "dir/file.txt", win32)).toBe(true);
+        expect(endsWith("a", "a/b", posix)).toBe(false);
+    });
+});
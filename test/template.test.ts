@@ -0,0 +1,57 @@
+import { compileTemplate, extract } from "../src/template";
+import { posix, win32 } from "./harness";
+
+describe("template", () => {
+    it("fills placeholders from the path and the values", () => {
+        const template = compileTemplate("dist/[name].[hash:8][ext]", posix);
+        expect(template.placeholders).toEqual(["name", "hash", "ext"]);
+        expect(template.fill("src/app.js", { hash: "0123456789abcdef" })).toBe("dist/app.01234567.js");
+        expect(template.fill({ name: "lib", ext: ".mjs" }, { hash: 42 })).toBe("dist/lib.42.mjs");
+        expect(template.fill("src/app.js", { name: "main", hash: "ff" })).toBe("dist/main.ff.js");
+    });
+
+    it("applies the case modifiers", () => {
+        expect(compileTemplate("[name:upper]-[name]{ext:lower}", posix).fill("x/ab.JS")).toBe("AB-ab.js");
+        expect(compileTemplate("{name:lower:2}", posix).fill("ABC")).toBe("ab");
+    });
+
+    it("drops the separator after an empty placeholder", () => {
+        const template = compileTemplate("{dir}/{name}.min{ext}", posix);
+        expect(template.fill("a/b/c.js")).toBe("a/b/c.min.js");
+        expect(template.fill("c.js")).toBe("c.min.js");
+        expect(compileTemplate("out/[dir]/[base]", posix).fill("c.js")).toBe("out/c.js");
+    });
+
+    it("does not double the separator after a root directory", () => {
+        expect(compileTemplate("{dir}/{name}.min{ext}", posix).fill("/app.js")).toBe("/app.min.js");
+        expect(compileTemplate("{dir}\\{name}.min{ext}", win32).fill("C:\\app.js")).toBe("C:\\app.min.js");
+        expect(compileTemplate("{dir}/{name}.min{ext}", win32).fill("C:\\app.js")).toBe("C:\\app.min.js");
+        expect(compileTemplate("[root]/[base]", win32).fill("\\\\server\\share\\a.txt")).toBe("\\\\server\\share\\a.txt");
+        expect(compileTemplate("{out}/{base}", posix).fill("a.js", { out: "dist/" })).toBe("dist/a.js");
+        expect(compileTemplate("{dir}//{base}", posix).fill("/a.js")).toBe("//a.js");
+    });
+
+    it("keeps anything else literally", () => {
+        expect(compileTemplate("{a,b}/[0]/[name]", posix).fill("x")).toBe("{a,b}/[0]/x");
+    });
+
+    it("rejects unknown modifiers and missing values", () => {
+        expect(() => compileTemplate("[name:weird]", posix)).toThrow(TypeError);
+        expect(() => compileTemplate("[hash]", posix).fill("a")).toThrow(TypeError);
+    });
+
+    it("extracts the values back", () => {
+        expect(extract("dist/[name].[hash:8][ext]", "dist/app.01234567.js", posix))
+            .toEqual({ name: "app", hash: "01234567", ext: ".js" });
+        expect(extract("{dir}/{name}.min{ext}", "a/b/c.min.js", posix)).toEqual({ dir: "a/b", name: "c", ext: ".js" });
+        expect(extract("{dir}/{name}.min{ext}", "c.min.js", posix)).toEqual({ dir: "", name: "c", ext: ".js" });
+        expect(extract("[a]/[a]", "x/x", posix)).toEqual({ a: "x" });
+        expect(extract("[a]/[a]", "x/y", posix)).toBeUndefined();
+        expect(extract("dist/[name]", "src/app", posix)).toBeUndefined();
+    });
+
+    it("matches literals like the driver compares paths", () => {
+        expect(extract("OUT/[name]{ext}", "out\\x.txt", win32)).toEqual({ name: "x", ext: ".txt" });
+        expect(extract("OUT/[name]{ext}", "out/x.txt", posix)).toBeUndefined();
+    });
+});
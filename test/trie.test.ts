@@ -0,0 +1,71 @@
+import { PathTrie } from "../src/trie";
+import { posix, win32 } from "./harness";
+
+describe("PathTrie", () => {
+    function owners(): PathTrie<string> {
+        return new PathTrie<string>(posix)
+            .set("/app", "web")
+            .set("/app/api/", "backend")
+            .set("/apple", "fruit")
+            .set("/app/./api/v2/../v1", "legacy")
+            .set("lib", "shared");
+    }
+
+    it("stores values under normalized keys", () => {
+        const trie = owners();
+        expect(trie.size).toBe(5);
+        expect(trie.get("/app/api")).toBe("backend");
+        expect(trie.get("/app//api/")).toBe("backend");
+        expect(trie.get("/app/api/v1")).toBe("legacy");
+        expect(trie.get("./lib")).toBe("shared");
+        expect(trie.has("/app/api/v2")).toBe(false);
+        expect(trie.get("/ap")).toBeUndefined();
+    });
+
+    it("finds the longest prefix by whole segments", () => {
+        const trie = owners();
+        expect(trie.longestPrefix("/app/api/users/1")).toEqual({ path: "/app/api", value: "backend", rest: "users/1" });
+        expect(trie.longestPrefix("/app")).toEqual({ path: "/app", value: "web", rest: "" });
+        expect(trie.longestPrefix("/apple/pie")).toEqual({ path: "/apple", value: "fruit", rest: "pie" });
+        expect(trie.longestPrefix("/applesauce")).toBeUndefined();
+        expect(trie.longestPrefix("lib/a.js")).toEqual({ path: "lib", value: "shared", rest: "a.js" });
+        expect(trie.longestPrefix("/lib/a.js")).toBeUndefined();
+    });
+
+    it("deletes values and keeps the ones below", () => {
+        const trie = owners();
+        expect(trie.delete("/app")).toBe(true);
+        expect(trie.delete("/app")).toBe(false);
+        expect(trie.delete("/app/missing")).toBe(false);
+        expect(trie.size).toBe(4);
+        expect(trie.longestPrefix("/app/index.js")).toBeUndefined();
+        expect(trie.get("/app/api")).toBe("backend");
+        expect(trie.delete("/app/api/v1")).toBe(true);
+        expect(trie.longestPrefix("/app/api/v1/x")!.path).toBe("/app/api");
+    });
+
+    it("iterates over subtrees", () => {
+        const trie = owners();
+        expect(Array.from(trie.entries("/app"))).toEqual([
+            ["/app", "web"],
+            ["/app/api", "backend"],
+            ["/app/api/v1", "legacy"]
+        ]);
+        expect(Array.from(trie.entries("/app/api/v1/x"))).toEqual([]);
+        expect(Array.from(trie).map(([path]) => path)).toEqual(["/app", "/app/api", "/app/api/v1", "/apple", "lib"]);
+        trie.clear();
+        expect(trie.size).toBe(0);
+        expect(Array.from(trie)).toEqual([]);
+    });
+
+    it("folds the case on win32", () => {
+        const trie = new PathTrie<number>(win32).set("C:\\Program Files", 1).set("\\\\server\\share\\Data", 2);
+        expect(trie.get("c:/program files")).toBe(1);
+        expect(trie.longestPrefix("c:/PROGRAM FILES/App/app.exe")).toEqual({
+            path: "C:\\Program Files", value: 1, rest: "App\\app.exe"
+        });
+        expect(trie.longestPrefix("//SERVER/share/data/x")!.value).toBe(2);
+        expect(trie.longestPrefix("D:\\Program Files")).toBeUndefined();
+        expect(new PathTrie<number>(posix).set("/App", 1).get("/app")).toBeUndefined();
+    });
+});
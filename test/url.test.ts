@@ -0,0 +1,156 @@
+import { UrlDriver } from "../src";
+import { conforms } from "./harness";
+
+describe("url driver", () => {
+    const url = new UrlDriver({ cwd: "http://a/b/c/d;p?q" });
+    const routes = new UrlDriver({ cwd: "/app/" });
+
+    // RFC 3986 section 5.4 reference resolution examples
+    conforms(url, "resolve", [
+        // 5.4.1 normal examples
+        [["g:h"], "g:h"],
+        [["g"], "http://a/b/c/g"],
+        [["./g"], "http://a/b/c/g"],
+        [["g/"], "http://a/b/c/g/"],
+        [["/g"], "http://a/g"],
+        [["//g"], "http://g"],
+        [["?y"], "http://a/b/c/d;p?y"],
+        [["g?y"], "http://a/b/c/g?y"],
+        [["#s"], "http://a/b/c/d;p?q#s"],
+        [["g#s"], "http://a/b/c/g#s"],
+        [["g?y#s"], "http://a/b/c/g?y#s"],
+        [[";x"], "http://a/b/c/;x"],
+        [["g;x"], "http://a/b/c/g;x"],
+        [["g;x?y#s"], "http://a/b/c/g;x?y#s"],
+        [[""], "http://a/b/c/d;p?q"],
+        [["."], "http://a/b/c/"],
+        [["./"], "http://a/b/c/"],
+        [[".."], "http://a/b/"],
+        [["../"], "http://a/b/"],
+        [["../g"], "http://a/b/g"],
+        [["../.."], "http://a/"],
+        [["../../"], "http://a/"],
+        [["../../g"], "http://a/g"],
+        // 5.4.2 abnormal examples, strict parser
+        [["../../../g"], "http://a/g"],
+        [["../../../../g"], "http://a/g"],
+        [["/./g"], "http://a/g"],
+        [["/../g"], "http://a/g"],
+        [["g."], "http://a/b/c/g."],
+        [[".g"], "http://a/b/c/.g"],
+        [["g.."], "http://a/b/c/g.."],
+        [["..g"], "http://a/b/c/..g"],
+        [["./../g"], "http://a/b/g"],
+        [["./g/."], "http://a/b/c/g/"],
+        [["g/./h"], "http://a/b/c/g/h"],
+        [["g/../h"], "http://a/b/c/h"],
+        [["g;x=1/./y"], "http://a/b/c/g;x=1/y"],
+        [["g;x=1/../y"], "http://a/b/c/y"],
+        [["g?y/./x"], "http://a/b/c/g?y/./x"],
+        [["g?y/../x"], "http://a/b/c/g?y/../x"],
+        [["g#s/./x"], "http://a/b/c/g#s/./x"],
+        [["g#s/../x"], "http://a/b/c/g#s/../x"],
+        [["http:g"], "http:g"]
+    ]);
+
+    conforms(routes, "resolve", [
+        [["users/1"], "/app/users/1"],
+        [["/api/v1/../users"], "/api/users"],
+        [["../x?page=2#top"], "/x?page=2#top"],
+        [["https://cdn.example/a/./b"], "https://cdn.example/a/b"]
+    ]);
+
+    conforms(url, "normalize", [
+        [["/api/v1/../users"], "/api/users"],
+        [["/a/%2e%2e/b/%2E/c"], "/b/c"],
+        [["/a/.%2E/b"], "/b"],
+        [["a/../../b"], "../b"],
+        [["/a//b/"], "/a//b/"],
+        [["/a/%41%20b"], "/a/%41%20b"],
+        [["HTTP://Example.COM/A/../B?Q=1#F"], "http://example.com/B?Q=1#F"],
+        [["https://User:PW@Ex.com/A"], "https://User:PW@ex.com/A"],
+        [["https://a@b:C@Ex.com:8080/"], "https://a@b:C@ex.com:8080/"],
+        [["HTTP://[FE80::1]:80/A"], "http://[fe80::1]:80/A"],
+        [["//User@HOST/x/../y"], "//User@host/y"],
+        [["?q"], "?q"],
+        [["#f"], "#f"],
+        [[""], "."]
+    ]);
+
+    conforms(url, "isAbsolute", [
+        [["/a"], true],
+        [["http://a"], true],
+        [["mailto:x"], true],
+        [["//cdn/a"], true],
+        [["a/b"], false],
+        [["?q"], false]
+    ]);
+
+    conforms(url, "join", [
+        [["/api", "v1/", "/users"], "/api/v1/users"],
+        [["http://x/a?q=1#f", "b?r=2#g"], "http://x/a/b?r=2#g"],
+        [["http://x/a", "http://x/b"], "http://x/a/b"],
+        [["a", "../../b"], "../b"],
+        [[], "."]
+    ]);
+
+    conforms(url, "relative", [
+        [["http://a/x/y", "http://a/x/z?q#f"], "../z?q#f"],
+        [["http://a/x/y", "http://a/x/y/z"], "z"],
+        [["http://a/x/y", "http://b/x/z"], "http://b/x/z"],
+        [["https://a/x", "http://a/x"], "http://a/x"],
+        [["/a", "/a:b"], "../a:b"],
+        [["/", "/a:b"], "./a:b"]
+    ]);
+
+    conforms(url, "parse", [
+        [["http://a/b/c.js?q#f"], { root: "http://a/", dir: "http://a/b", base: "c.js", ext: ".js", name: "c" }],
+        [["/api/users/"], { root: "/", dir: "/api", base: "users", ext: "", name: "users" }],
+        [["a%2Fb.tar.gz"], { root: "", dir: "", base: "a%2Fb.tar.gz", ext: ".gz", name: "a%2Fb.tar" }]
+    ]);
+
+    conforms(url, "dirname", [
+        [["/api/v1/users"], "/api/v1"],
+        [["http://a/b?q"], "http://a/"],
+        [["users"], "."]
+    ]);
+
+    conforms(url, "basename", [
+        [["/a/b.html?x", ".html"], "b"],
+        [["/a/b.html", undefined], "b.html"]
+    ]);
+
+    conforms(url, "format", [
+        [[{ root: "/", dir: "/a", name: "b", ext: ".js" }], "/a/b.js"],
+        [[{ dir: "http://x/", base: "y" }], "http://x/y"]
+    ]);
+
+    it("rejects joining paths of another origin", () => {
+        expect(() => url.join("http://a/x", "http://b/y")).toThrow(TypeError);
+    });
+
+    it("rejects values which are not strings", () => {
+        const methods = ["normalize", "isAbsolute", "dirname", "basename", "extname", "parse", "join", "resolve"];
+        for (const method of methods) {
+            for (const value of [undefined, null, 1, {}]) {
+                const call = () => (url as unknown as Record<string, (value: unknown) => unknown>)[method](value);
+                expect(call).toThrow(TypeError);
+                try {
+                    call();
+                } catch (e) {
+                    expect(e.name).toBe("InvalidArgumentError");
+                }
+            }
+        }
+        expect(() => url.basename("/a", 1 as unknown as string)).toThrow(TypeError);
+        expect(() => url.relative("/a", undefined as unknown as string)).toThrow(TypeError);
+        for (const value of [null, undefined, "x"]) {
+            expect(() => url.format(value as never)).toThrow(TypeError);
+            try {
+                url.format(value as never);
+            } catch (e) {
+                expect(e.name).toBe("InvalidArgumentError");
+            }
+        }
+    });
+});
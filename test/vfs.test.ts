@@ -0,0 +1,133 @@
+import { PosixDriver, Win32Driver } from "../src";
+import { VirtualFileSystem, VirtualFileSystemError } from "../src/vfs";
+
+describe("VirtualFileSystem", () => {
+    function code(action: () => void): string | undefined {
+        try {
+            action();
+        } catch (e) {
+            expect(e).toBeInstanceOf(VirtualFileSystemError);
+            return e.code;
+        }
+        return undefined;
+    }
+
+    function tree(): VirtualFileSystem {
+        const fs = new VirtualFileSystem(new PosixDriver());
+        fs.mkdir("/srv/app/lib", { recursive: true });
+        fs.writeFile("/srv/app/index.js", "main");
+        fs.writeFile("/srv/app/lib/util.js", "util");
+        return fs;
+    }
+
+    it("reads and writes files and directories", () => {
+        const fs = tree();
+        expect(fs.readFile("/srv/app/index.js")).toBe("main");
+        expect(fs.readdir("/srv/app")).toEqual(["lib", "index.js"]);
+        expect(fs.stat("/srv/app/lib").isDirectory()).toBe(true);
+        expect(fs.stat("/srv/app/index.js").size).toBe(4);
+        fs.writeFile("/srv/app/index.js", "changed");
+        expect(fs.readFile("/srv//app/./lib/../index.js")).toBe("changed");
+        expect(fs.exists("/srv/missing")).toBe(false);
+    });
+
+    it("resolves relative paths against the cwd of the driver", () => {
+        const fs = tree();
+        expect(fs.cwd).toBe("/");
+        fs.chdir("srv/app");
+        expect(fs.cwd).toBe("/srv/app");
+        expect(fs.driver.resolve("lib")).toBe("/srv/app/lib");
+        expect(fs.readFile("lib/util.js")).toBe("util");
+        expect(code(() => fs.chdir("index.js"))).toBe("ENOTDIR");
+        expect(code(() => fs.chdir("/nowhere"))).toBe("ENOENT");
+    });
+
+    it("follows symlinks", () => {
+        const fs = tree();
+        fs.symlink("/srv/app/lib", "/lib");
+        fs.symlink("lib/util.js", "/srv/app/util");
+        fs.symlink("..", "/srv/app/lib/up");
+        expect(fs.readFile("/lib/util.js")).toBe("util");
+        expect(fs.readFile("/srv/app/util")).toBe("util");
+        expect(fs.readFile("/lib/up/index.js")).toBe("main");
+        expect(fs.lstat("/lib").isSymbolicLink()).toBe(true);
+        expect(fs.stat("/lib").isDirectory()).toBe(true);
+        expect(fs.readlink("/srv/app/util")).toBe("lib/util.js");
+        expect(code(() => fs.readlink("/srv/app/index.js"))).toBe("EINVAL");
+    });
+
+    it("writes through symlinks and removes the links themselves", () => {
+        const fs = tree();
+        fs.symlink("/srv/app/new.txt", "/dangling");
+        expect(fs.exists("/dangling")).toBe(false);
+        fs.writeFile("/dangling", "created");
+        expect(fs.readFile("/srv/app/new.txt")).toBe("created");
+        fs.unlink("/dangling");
+        expect(fs.exists("/srv/app/new.txt")).toBe(true);
+        expect(code(() => fs.lstat("/dangling"))).toBe("ENOENT");
+    });
+
+    it("detects symlink loops", () => {
+        const fs = tree();
+        fs.symlink("/b", "/a");
+        fs.symlink("/a", "/b");
+        expect(code(() => fs.readFile("/a"))).toBe("ELOOP");
+        expect(code(() => fs.stat("/a/x"))).toBe("ELOOP");
+        expect(fs.lstat("/a").isSymbolicLink()).toBe(true);
+    });
+
+    it("reports errors the way node does", () => {
+        const fs = tree();
+        expect(code(() => fs.mkdir("/srv"))).toBe("EEXIST");
+        expect(code(() => fs.mkdir("/x/y"))).toBe("ENOENT");
+        expect(code(() => fs.readFile("/srv"))).toBe("EISDIR");
+        expect(code(() => fs.readdir("/srv/app/index.js"))).toBe("ENOTDIR");
+        expect(code(() => fs.readFile("/srv/app/index.js/x"))).toBe("ENOTDIR");
+        expect(code(() => fs.rmdir("/srv/app"))).toBe("ENOTEMPTY");
+        expect(code(() => fs.unlink("/srv/app/lib"))).toBe("EISDIR");
+        try {
+            fs.readFile("/missing");
+            fail("expected a VirtualFileSystemError");
+        } catch (e) {
+            expect(e.message).toBe("ENOENT: no such file or directory, open '/missing'");
+            expect(e.syscall).toBe("open");
+            expect(e.path).toBe("/missing");
+        }
+    });
+
+    it("removes files and empty directories", () => {
+        const fs = tree();
+        fs.unlink("/srv/app/lib/util.js");
+        fs.rmdir("/srv/app/lib");
+        expect(fs.readdir("/srv/app")).toEqual(["index.js"]);
+        expect(code(() => fs.rmdir("/srv/app/lib"))).toBe("ENOENT");
+    });
+
+    it("looks names up case-insensitively on win32", () => {
+        const fs = new VirtualFileSystem(new Win32Driver());
+        expect(fs.cwd).toBe("C:\\");
+        fs.mkdir("C:\\Program Files\\App", { recursive: true });
+        fs.writeFile("c:/program files/APP/Readme.TXT", "hello");
+        expect(fs.readFile("C:\\PROGRAM FILES\\app\\readme.txt")).toBe("hello");
+        expect(fs.readdir("c:\\program files")).toEqual(["App"]);
+        expect(code(() => fs.mkdir("C:\\PROGRAM FILES"))).toBe("EEXIST");
+        expect(fs.exists("D:\\Program Files")).toBe(false);
+        fs.symlink("C:\\Program Files\\App", "C:\\app");
+        expect(fs.readFile("C:\\APP\\README.txt")).toBe("hello");
+    });
+
+    it("keeps names case-sensitive on posix", () => {
+        const fs = tree();
+        fs.writeFile("/srv/app/Index.js", "other");
+        expect(fs.readFile("/srv/app/index.js")).toBe("main");
+        expect(fs.readFile("/srv/app/Index.js")).toBe("other");
+        expect(fs.exists("/SRV")).toBe(false);
+    });
+
+    it("compares names under the normalization form of the driver", () => {
+        const fs = new VirtualFileSystem(new PosixDriver({ comparison: { caseSensitive: true, normalization: "NFC" } }));
+        fs.writeFile("/cafe\u0301", "nfd");
+        expect(fs.readFile("/caf\u00e9")).toBe("nfd");
+        expect(fs.readdir("/")).toEqual(["cafe\u0301"]);
+    });
+});